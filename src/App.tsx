@@ -1,193 +1,300 @@
-import { useState, useEffect } from 'react'
-import { motion, AnimatePresence } from 'framer-motion'
-import { Plus, Search, Zap, CheckCircle2, Clock, AlertCircle, Briefcase, Heart, Home, BookOpen, ShoppingCart, Settings, Trash2, Star } from 'lucide-react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { Navigate } from 'react-router-dom'
+import { useTheme } from 'next-themes'
+import { Plus, Zap, Command, Keyboard, Settings2, CheckCircle2, Clock, AlertCircle, CalendarClock, DatabaseZap, Trash2, ArrowUpDown, LayoutList, SquareKanban, CalendarDays } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Badge } from '@/components/ui/badge'
-import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DueDatePicker } from '@/components/DueDatePicker'
+import { FilterBuilder } from '@/components/FilterBuilder'
+import { QuickAddChips } from '@/components/QuickAddChips'
+import { ReorderableList } from '@/components/ReorderableList'
+import { RecurrencePicker } from '@/components/RecurrencePicker'
+import { QuerySearchBox } from '@/components/QuerySearchBox'
+import { AutocompleteInput } from '@/components/AutocompleteInput'
+import { ShortcutHelp } from '@/components/ShortcutHelp'
+import { SmartListNav } from '@/components/SmartListNav'
+import { BatchActionBar } from '@/components/BatchActionBar'
+import { CategoryManager, type CategoryChanges } from '@/components/CategoryManager'
+import { ProjectHeader } from '@/components/ProjectHeader'
+import { ProjectSidebar } from '@/components/ProjectSidebar'
+import { ShareProjectDialog, type MemberRole } from '@/components/ShareProjectDialog'
+import { CommandPalette } from '@/components/CommandPalette'
+import { SyncIndicator } from '@/components/SyncIndicator'
+import { TodoBoard } from '@/components/TodoBoard'
+import { TodoCalendar } from '@/components/TodoCalendar'
+import { TodoCard } from '@/components/TodoCard'
+import { TodoEditDialog } from '@/components/TodoEditDialog'
+import { TrashList } from '@/components/TrashList'
+import { activityEntries, commentBranch, type ActivityEntry } from '@/lib/activity'
+import { boardGroupings, isBoardGrouping, type BoardGrouping, type TodoStatus } from '@/lib/board'
+import {
+  categoryColors,
+  categoryRowId,
+  defaultCategoryRows,
+  fallbackCategory,
+  slugifyCategory,
+  toCategoryOptions
+} from '@/lib/categories'
+import { formatDueDate, getDueState } from '@/lib/due-date'
+import { MOD_KEY } from '@/lib/keyboard'
+import { classifyTodo, type Classification } from '@/lib/classify'
+import { matchesFilter, parseFilter, serializeFilter, type TodoFilter } from '@/lib/filters'
+import { positionBetween, spreadPositions } from '@/lib/position'
+import { getProjectStats, INBOX, isArchived, todoInScope } from '@/lib/projects'
+import { parseQuery } from '@/lib/query'
+import { getQuickAddSuggestions, parseQuickAdd } from '@/lib/quick-add'
+import { getNextOccurrence, parseRecurrence } from '@/lib/recurrence'
+import { isTodoSort, sortTodos, todoSorts, type TodoSort } from '@/lib/sort'
+import { autoCompletesFromSubtasks, groupSubtasks } from '@/lib/subtasks'
+import { groupTags, normalizeTagName } from '@/lib/tags'
+import { CategoriesContext } from '@/hooks/use-categories'
+import { useLocalStore } from '@/hooks/use-local-store'
+import { useSearchIndex } from '@/hooks/use-search-index'
+import { useSelection } from '@/hooks/use-selection'
+import { useShortcuts } from '@/hooks/use-shortcuts'
+import { getSavedView, useTodoRoute } from '@/hooks/use-todo-route'
+import { useUndo } from '@/hooks/use-undo'
+import type { Category, Comment, Project, SmartList, Subtask, Tag, Todo, TodoChanges, TodoTag } from '@/types/todo'
 
-import { blink } from './blink/client'
+import { loadBackend, type AuthUser } from '@/data/backend'
+import {
+  canEdit,
+  isAccepted,
+  normalizeEmail,
+  pendingInvitations,
+  PermissionError,
+  projectMembers,
+  projectRole,
+  todoRole
+} from '@/data/permissions'
 import { toast } from 'react-hot-toast'
 
-interface Todo {
-  id: string
-  title: string
-  description: string
-  category: 'work' | 'personal' | 'health' | 'home' | 'learning' | 'shopping' | 'other'
-  priority: 'low' | 'medium' | 'high'
-  completed: boolean
-  created_at: string
-  due_date?: string
-  user_id: string
+// AI metadata stored alongside a classification; a due date is only suggested when none is set
+function classificationFields(classification: Classification, dueDate?: string) {
+  return {
+    ai_confidence: classification.confidence,
+    ai_rationale: classification.rationale,
+    ai_suggested_due_date: dueDate ? undefined : classification.suggestedDueDate
+  }
 }
 
-const categories = [
-  { id: 'work', name: 'Work', icon: Briefcase, color: 'bg-blue-100 text-blue-800' },
-  { id: 'personal', name: 'Personal', icon: Heart, color: 'bg-pink-100 text-pink-800' },
-  { id: 'health', name: 'Health', icon: Heart, color: 'bg-green-100 text-green-800' },
-  { id: 'home', name: 'Home', icon: Home, color: 'bg-yellow-100 text-yellow-800' },
-  { id: 'learning', name: 'Learning', icon: BookOpen, color: 'bg-purple-100 text-purple-800' },
-  { id: 'shopping', name: 'Shopping', icon: ShoppingCart, color: 'bg-orange-100 text-orange-800' },
-  { id: 'other', name: 'Other', icon: Settings, color: 'bg-gray-100 text-gray-800' }
-]
-
-const priorities = [
-  { id: 'low', name: 'Low', color: 'bg-green-100 text-green-800' },
-  { id: 'medium', name: 'Medium', color: 'bg-yellow-100 text-yellow-800' },
-  { id: 'high', name: 'High', color: 'bg-red-100 text-red-800' }
-]
-
-function ensureArray<T>(response: unknown, fallback: T[] = []): T[] {
-  if (Array.isArray(response)) return response as T[]
-  if (response && typeof response === 'object') {
-    // @ts-expect-error index signature
-    if (Array.isArray((response as any).data)) return (response as any).data as T[]
-    // Try to find first array value property
-    for (const value of Object.values(response as Record<string, unknown>)) {
-      if (Array.isArray(value)) return value as T[]
-    }
-  }
-  return fallback
+// Permission errors say what the user may not do; anything else gets the generic message
+function failureMessage(error: unknown, fallback: string): string {
+  return error instanceof PermissionError ? error.message : fallback
 }
 
+const SORT_KEY = 'smart-todo:sort'
+const BOARD_GROUPING_KEY = 'smart-todo:board-grouping'
+
+// Fields a reclassification may overwrite after an edit; undo has to put these back too
+const CLASSIFIED_FIELDS = ['category', 'priority', 'ai_confidence', 'ai_rationale', 'ai_suggested_due_date'] as const
+
 function App() {
-  const [todos, setTodos] = useState<Todo[]>([])
-  const [user, setUser] = useState<{ id: string; email: string } | null>(null)
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const {
+    store,
+    todos,
+    subtasks,
+    smartLists,
+    tags,
+    todoTags,
+    categories: categoryRows,
+    projects,
+    members,
+    comments,
+    activities,
+    status: syncStatus,
+    migrationError
+  } = useLocalStore(user)
+  const categories = useMemo(() => toCategoryOptions(categoryRows), [categoryRows])
+  const activeCategories = categories.filter(cat => !cat.archived)
   const [newTodo, setNewTodo] = useState('')
   const [newDescription, setNewDescription] = useState('')
-  const [searchTerm, setSearchTerm] = useState('')
-  const [selectedCategory, setSelectedCategory] = useState<string>('all')
-  const [isLoading, setIsLoading] = useState(false)
+  const [newDueDate, setNewDueDate] = useState<string | undefined>()
+  const [newRecurrence, setNewRecurrence] = useState<string | undefined>()
+  const route = useTodoRoute()
+  const { view, query: searchTerm, category: selectedCategory, project: projectScope } = route
+  const selectedProject = projects.find(project => project.id === projectScope)
+  // What the signed-in user may do; the store enforces the same rules on every write
+  const access = { userId: user?.id ?? '', email: user?.email ?? '', projects, members, todos }
+  const canEditTodo = (todo: Todo) => canEdit(todoRole(todo, access))
+  const invitations = user ? pendingInvitations(members, user.email) : []
+  const sharedIds = new Set(members.map(member => member.project_id))
+  // Who a todo in this project can be assigned to; nobody unless it is shared
+  const assigneesFor = (projectId?: string) => projectId ? projectMembers(members, projectId).filter(isAccepted) : []
+  const showTrash = view === 'trash'
+  const activeList = smartLists.find(list => list.id === route.smartListId)
+  const activeFilter = activeList ? parseFilter(activeList.filter) : route.filter
   const [isAddingTodo, setIsAddingTodo] = useState(false)
+  const newTodoInput = useRef<HTMLInputElement>(null)
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+  const [categoriesOpen, setCategoriesOpen] = useState(false)
+  // Project whose members dialog is open
+  const [sharingId, setSharingId] = useState<string | null>(null)
+  const sharingProject = projects.find(project => project.id === sharingId)
+  const { resolvedTheme, setTheme } = useTheme()
+  const [sort, setSort] = useState<TodoSort>(() => {
+    const saved = localStorage.getItem(SORT_KEY)
+    return isTodoSort(saved) ? saved : 'manual'
+  })
+  const [boardGrouping, setBoardGrouping] = useState<BoardGrouping>(() => {
+    const saved = localStorage.getItem(BOARD_GROUPING_KEY)
+    return isBoardGrouping(saved) ? saved : 'status'
+  })
+  const { record, notify } = useUndo()
 
-  // Auto-categorize function using AI
-  const categorizeTodo = async (title: string, description: string) => {
-    try {
-      const { text } = await blink.ai.generateText({
-        prompt: `Categorize this todo task into one of these categories: work, personal, health, home, learning, shopping, other.
-        
-        Task: "${title}"
-        Description: "${description}"
-        
-        Consider these guidelines:
-        - work: professional tasks, meetings, projects, deadlines
-        - personal: hobbies, social activities, personal goals
-        - health: exercise, medical appointments, wellness
-        - home: chores, maintenance, home improvement
-        - learning: education, skills, reading, courses
-        - shopping: buying items, groceries, online purchases
-        - other: anything that doesn't fit the above
-        
-        Respond with just the category name (lowercase).`,
-        maxTokens: 50
-      })
+  // Local data shows straight away; only an empty first run waits for the server
+  const isLoading = !store || (syncStatus.initialSync && syncStatus.online && todos.length === 0)
 
-      const category = text.trim().toLowerCase()
-      return categories.find(cat => cat.id === category) ? category : 'other'
-    } catch (error) {
-      console.error('Error categorizing todo:', error)
-      return 'other'
-    }
+  // Delete todos outright, along with their subtasks and tag links
+  const removeTodoRows = async (ids: string[]) => {
+    if (!store || ids.length === 0) return
+    const snapshot = store.getSnapshot()
+    await store.remove('subtasks', snapshot.subtasks.filter(s => ids.includes(s.todo_id)).map(s => s.id))
+    await store.remove('todo_tags', snapshot.todoTags.filter(link => ids.includes(link.todo_id)).map(link => link.id))
+    await store.remove('comments', snapshot.comments.filter(comment => ids.includes(comment.todo_id)).map(comment => comment.id))
+    await store.remove('activities', snapshot.activities.filter(activity => ids.includes(activity.todo_id)).map(activity => activity.id))
+    await store.remove('todos', ids)
   }
 
-  // Auto-prioritize function using AI
-  const prioritizeTodo = async (title: string, description: string) => {
+  // Append to a todo's history (see lib/activity). A failed write is only logged: the change it
+  // describes has already been made.
+  const logActivity = async (todoId: string, entries: ActivityEntry[], byAi = false) => {
+    if (!store || !user) return
     try {
-      const { text } = await blink.ai.generateText({
-        prompt: `Determine the priority level for this todo task: low, medium, or high.
-        
-        Task: "${title}"
-        Description: "${description}"
-        
-        Consider urgency, importance, and impact:
-        - high: urgent deadlines, important meetings, critical tasks
-        - medium: important but not urgent, moderate impact
-        - low: nice to have, can be done later, minimal impact
-        
-        Respond with just the priority level (lowercase).`,
-        maxTokens: 50
-      })
-
-      const priority = text.trim().toLowerCase()
-      return priorities.find(p => p.id === priority) ? priority : 'medium'
+      for (const entry of entries) {
+        await store.create('activities', {
+          ...entry,
+          id: crypto.randomUUID(),
+          todo_id: todoId,
+          by_ai: byAi,
+          author_email: user.email,
+          created_at: new Date().toISOString(),
+          user_id: user.id
+        })
+      }
     } catch (error) {
-      console.error('Error prioritizing todo:', error)
-      return 'medium'
+      console.error('Error logging activity:', error)
+    }
+  }
+
+  // Look tags up by name, creating the ones that don't exist yet
+  const ensureTags = async (names: string[]): Promise<Tag[]> => {
+    if (!store || !user) return []
+    // Tags from other people's todos in shared projects show up too, but only ours are reused
+    const existing = store.getSnapshot().tags.filter(tag => tag.user_id === user.id)
+    const result: Tag[] = []
+    for (const name of new Set(names.map(normalizeTagName).filter(Boolean))) {
+      let tag = existing.find(t => t.name === name)
+      if (!tag) {
+        tag = { id: crypto.randomUUID(), name, created_at: new Date().toISOString(), user_id: user.id }
+        await store.create('tags', { ...tag })
+      }
+      result.push(tag)
     }
+    return result
+  }
+
+  // Make a todo's tags exactly `names`; returns the links written and removed, for undo
+  const setTodoTags = async (todoId: string, names: string[]) => {
+    if (!store || !user) return { added: [], removed: [] }
+    const snapshot = store.getSnapshot()
+    const links = snapshot.todoTags.filter(link => link.todo_id === todoId)
+    // Compared by name: on a shared todo the same tag may be someone else's row
+    const linkedName = (link: TodoTag) => snapshot.tags.find(tag => tag.id === link.tag_id)?.name
+    const wanted = new Set(names.map(normalizeTagName).filter(Boolean))
+    const added: TodoTag[] = (await ensureTags(Array.from(wanted).filter(name => !links.some(link => linkedName(link) === name))))
+      .map(tag => ({ id: crypto.randomUUID(), todo_id: todoId, tag_id: tag.id, created_at: new Date().toISOString(), user_id: user.id }))
+    const removed = links.filter(link => !wanted.has(linkedName(link) ?? ''))
+    for (const link of added) await store.create('todo_tags', { ...link })
+    await store.remove('todo_tags', removed.map(link => link.id))
+    return { added, removed }
   }
 
-  // Load todos from database
-  const loadTodos = async () => {
+  const updateTodoTags = async (todoId: string, names: string[]) => {
+    if (!store) return
     try {
-      setIsLoading(true)
-      const response = await blink.db.todos.list({
-        where: { user_id: user.id },
-        orderBy: { created_at: 'desc' }
+      const { added, removed } = await setTodoTags(todoId, names)
+      if (added.length === 0 && removed.length === 0) return
+      record({
+        label: 'tag change',
+        undo: async () => {
+          await store.remove('todo_tags', added.map(link => link.id))
+          for (const link of removed) await store.create('todo_tags', { ...link })
+        }
       })
-      const todoArray = ensureArray<Todo>(response)
-      // Filter out invalid records missing id
-      const validArray = todoArray.filter(t => typeof t.id === 'string' && t.id.trim() !== '')
-      // Remove potential duplicates by id
-      const uniqueArray = Array.from(new Map(validArray.map((t) => [t.id, t])).values())
-      setTodos(uniqueArray)
     } catch (error) {
-      console.error('Error loading todos:', error)
-      toast.error('Failed to load todos')
-    } finally {
-      setIsLoading(false)
+      console.error('Error updating tags:', error)
+      toast.error(failureMessage(error, 'Failed to update tags'))
     }
   }
 
   // Add new todo
   const addTodo = async () => {
-    if (!newTodo.trim()) return
+    if (!newTodo.trim() || !store || !user) return
 
     try {
       setIsAddingTodo(true)
-      
-      // Use AI to categorize and prioritize
-      const [category, priority] = await Promise.all([
-        categorizeTodo(newTodo, newDescription),
-        prioritizeTodo(newTodo, newDescription)
-      ])
-
-      const id = crypto.randomUUID()
-
-      await blink.db.todos.create({
-        id,
-        title: newTodo,
-        description: newDescription,
-        category,
-        priority,
-        completed: false,
-        user_id: user.id,
-        created_at: new Date().toISOString()
-      })
+
+      // Parse inline dates, priority, category and tags first; the pickers win over parsed values
+      const parsed = parseQuickAdd(newTodo, activeCategories)
+      const title = parsed.title || newTodo.trim()
+      const dueDate = newDueDate ?? parsed.dueDate
+      const recurrence = newRecurrence ?? parsed.recurrence
+
+      // Only ask the AI for what the parser could not determine, and not at all while offline
+      const needsAi = !parsed.category || !parsed.priority
+      const classification = needsAi && navigator.onLine
+        ? await classifyTodo(title, newDescription, categories, tags.map(tag => tag.name))
+        : null
+      const category = parsed.category ?? classification?.category ?? fallbackCategory(categories)
+      const priority = parsed.priority ?? classification?.priority ?? 'medium'
 
       const createdTodo: Todo = {
-        id,
-        title: newTodo,
+        id: crypto.randomUUID(),
+        title,
         description: newDescription,
-        category: category as Todo['category'],
-        priority: priority as Todo['priority'],
+        category,
+        priority,
         completed: false,
+        due_date: dueDate,
+        recurrence,
+        // New todos go on top; without room for a key they still sort first until the next respread
+        position: positionBetween(undefined, sortTodos(safeTodos, 'manual')[0]?.position),
+        // An explicit #category means the user chose, so the AI keeps its hands off; a typed
+        // !priority alone pins just the priority and leaves the category to the AI
+        manual_override: Boolean(parsed.category),
+        manual_priority: Boolean(parsed.priority),
+        // Added while looking at a project: it goes there; anywhere else, the inbox
+        project_id: selectedProject?.kind === 'project' && !isArchived(selectedProject) ? selectedProject.id : undefined,
+        ...(classification ? classificationFields(classification, dueDate) : {}),
         user_id: user.id,
         created_at: new Date().toISOString()
       }
 
-      // Add to state while ensuring uniqueness
-      setTodos(prev => {
-        const withoutDuplicate = ensureArray<Todo>(prev).filter(t => t.id !== createdTodo.id)
-        return [createdTodo, ...withoutDuplicate]
-      })
+      await store.create('todos', { ...createdTodo })
+      await logActivity(createdTodo.id, activityEntries(undefined, createdTodo))
+      if (classification && !parsed.category) {
+        await logActivity(createdTodo.id, [{ kind: 'recategorized', to_value: category }], true)
+      }
+      // Typed #tags win; otherwise take what the AI picked from the existing ones
+      await setTodoTags(createdTodo.id, parsed.tags.length > 0 ? parsed.tags : classification?.tags ?? [])
+      record({ label: 'add', undo: () => removeTodoRows([createdTodo.id]) })
       setNewTodo('')
       setNewDescription('')
+      setNewDueDate(undefined)
+      setNewRecurrence(undefined)
 
-      toast.success(`Todo added and auto-categorized as ${category}!`)
+      const categoryName = categories.find(cat => cat.id === category)?.name ?? category
+      toast.success(classification ? `Todo added and auto-categorized as ${categoryName}!` : 'Todo added!')
     } catch (error) {
       console.error('Error adding todo:', error)
-      toast.error('Failed to add todo')
+      toast.error(failureMessage(error, 'Failed to add todo'))
     } finally {
       setIsAddingTodo(false)
     }
@@ -195,85 +302,839 @@ function App() {
 
   // Toggle todo completion
   const toggleTodo = async (id: string, completed: boolean) => {
-    if (!id) return
+    if (!id || !store) return
+    const todo = todos.find(t => t.id === id)
+    const recurrence = completed && todo && !(Number(todo.completed) > 0) ? parseRecurrence(todo.recurrence) : null
     try {
-      await blink.db.todos.update(id, { completed })
-      setTodos(prev => prev.map(todo => 
-        todo.id === id ? { ...todo, completed } : todo
-      ))
-      toast.success(completed ? 'Todo completed!' : 'Todo marked as incomplete')
+      // The schedule moves to the spawned occurrence so re-completing this one cannot spawn twice
+      // Finishing a todo also takes it out of progress
+      await store.update('todos', id, {
+        completed,
+        ...(completed ? { in_progress: false } : {}),
+        ...(recurrence ? { recurrence: undefined } : {})
+      })
+      if (todo) await logActivity(id, activityEntries(todo, { completed }))
+      const dueDate = todo && recurrence ? getNextOccurrence(recurrence, todo.due_date) : undefined
+      const spawnedId = todo && dueDate ? await spawnNextOccurrence(todo, dueDate) : undefined
+
+      const entry = {
+        label: completed ? 'complete' : 'reopen',
+        undo: async () => {
+          await store.update('todos', id, { completed: !completed, in_progress: todo?.in_progress, recurrence: todo?.recurrence })
+          if (todo) await logActivity(id, activityEntries({ ...todo, completed }, { completed: !completed }))
+          if (spawnedId) await removeTodoRows([spawnedId])
+        }
+      }
+      if (completed) {
+        notify(dueDate ? `Todo completed! Next one is due ${formatDueDate(dueDate)}` : 'Todo completed!', entry)
+      } else {
+        record(entry)
+        toast.success('Todo marked as incomplete')
+      }
     } catch (error) {
       console.error('Error updating todo:', error)
-      toast.error('Failed to update todo')
+      toast.error(failureMessage(error, 'Failed to update todo'))
     }
   }
 
-  // Delete todo
+  // Create the next occurrence of a recurring todo, with a fresh copy of its checklist
+  const spawnNextOccurrence = async (todo: Todo, dueDate: string) => {
+    if (!store) return undefined
+    // Its own manual-order key, right after the occurrence it replaces
+    const ordered = sortTodos(safeTodos, 'manual')
+    const following = ordered[ordered.findIndex(t => t.id === todo.id) + 1]
+    const next: Todo = {
+      ...todo,
+      id: crypto.randomUUID(),
+      completed: false,
+      in_progress: false,
+      due_date: dueDate,
+      position: positionBetween(todo.position, following?.position),
+      created_at: new Date().toISOString()
+    }
+    await store.create('todos', { ...next })
+    await logActivity(next.id, activityEntries(undefined, next))
+    for (const subtask of subtasks.filter(s => s.todo_id === todo.id)) {
+      await store.create('subtasks', {
+        ...subtask,
+        id: crypto.randomUUID(),
+        todo_id: next.id,
+        completed: false,
+        created_at: next.created_at
+      })
+    }
+    for (const link of todoTags.filter(l => l.todo_id === todo.id)) {
+      await store.create('todo_tags', { ...link, id: crypto.randomUUID(), todo_id: next.id, created_at: next.created_at })
+    }
+    return next.id
+  }
+
+  // Update an existing todo; the local store applies it at once and syncs in the background
+  const updateTodo = async (id: string, changes: TodoChanges) => {
+    const previous = todos.find(todo => todo.id === id)
+    if (!store || !previous || Object.keys(changes).length === 0) return
+
+    const updated = { ...previous, ...changes }
+    const textChanged = 'title' in changes || 'description' in changes
+    const aiReenabled = changes.manual_override === false
+    const reclassify = (textChanged || aiReenabled) && !(Number(updated.manual_override) > 0) && navigator.onLine
+
+    try {
+      await store.update('todos', id, changes)
+      await logActivity(id, activityEntries(previous, changes))
+      const keys = [...Object.keys(changes), ...(reclassify ? CLASSIFIED_FIELDS : [])] as (keyof Todo)[]
+      const before = Object.fromEntries(keys.map(key => [key, previous[key]]))
+      record({
+        label: 'edit',
+        undo: async () => {
+          await store.update('todos', id, before)
+          await logActivity(id, activityEntries(updated, before))
+        }
+      })
+      toast.success('Todo updated')
+    } catch (error) {
+      console.error('Error updating todo:', error)
+      toast.error(failureMessage(error, 'Failed to update todo'))
+      return
+    }
+
+    // Re-run the AI on edited text unless the user has pinned the classification
+    if (reclassify) {
+      const classification = await classifyTodo(updated.title, updated.description, categories)
+      // Nothing usable came back; keep what the todo already has
+      if (classification.confidence === 0) return
+
+      // Skip the update if the user overrode the classification while the AI was thinking
+      const latest = store.getSnapshot().todos.find(todo => todo.id === id)
+      if (!latest || Number(latest.manual_override) > 0) return
+
+      try {
+        // A typed priority stays; only the category follows the new text
+        const classified = Number(latest.manual_priority) > 0
+          ? { category: classification.category }
+          : { category: classification.category, priority: classification.priority }
+        await store.update('todos', id, { ...classified, ...classificationFields(classification, latest.due_date) })
+        await logActivity(id, activityEntries(latest, classified), true)
+      } catch (error) {
+        console.error('Error reclassifying todo:', error)
+      }
+    }
+  }
+
+  // Move a todo to another board status; Done goes through the usual completion path
+  const setTodoStatus = async (id: string, status: TodoStatus) => {
+    const todo = todos.find(t => t.id === id)
+    if (!store || !todo) return
+    if (status === 'done') {
+      await toggleTodo(id, true)
+      return
+    }
+
+    const changes = { completed: false, in_progress: status === 'in_progress' }
+    try {
+      await store.update('todos', id, changes)
+      await logActivity(id, activityEntries(todo, changes))
+      record({
+        label: 'status change',
+        undo: async () => {
+          await store.update('todos', id, { completed: todo.completed, in_progress: todo.in_progress })
+          await logActivity(id, activityEntries({ ...todo, ...changes }, { completed: todo.completed }))
+        }
+      })
+      toast.success(status === 'in_progress' ? 'Todo in progress' : 'Todo moved to To do')
+    } catch (error) {
+      console.error('Error updating todo:', error)
+      toast.error(failureMessage(error, 'Failed to update todo'))
+    }
+  }
+
+  // A card dropped on another board column takes that column's value for the grouped field
+  const moveToColumn = (id: string, columnId: string) => {
+    if (boardGrouping === 'status') return setTodoStatus(id, columnId as TodoStatus)
+    // Picking a column by hand pins the classification, as in the edit dialog
+    return updateTodo(id, boardGrouping === 'priority'
+      ? { priority: columnId as Todo['priority'], manual_override: true }
+      : { category: columnId, manual_override: true })
+  }
+
+  // Add a subtask to the end of a todo's checklist
+  const addSubtask = async (todoId: string, title: string) => {
+    if (!user || !store) return
+    const siblings = subtasks.filter(subtask => subtask.todo_id === todoId)
+    const subtask: Subtask = {
+      id: crypto.randomUUID(),
+      todo_id: todoId,
+      title,
+      completed: false,
+      position: siblings.reduce((max, s) => Math.max(max, Number(s.position)), -1) + 1,
+      created_at: new Date().toISOString(),
+      user_id: user.id
+    }
+
+    try {
+      await store.create('subtasks', { ...subtask })
+
+      // A new open subtask means the parent is no longer done
+      const parent = todos.find(todo => todo.id === todoId)
+      if (parent && Number(parent.completed) > 0 && autoCompletesFromSubtasks(parent)) {
+        await toggleTodo(todoId, false)
+      }
+    } catch (error) {
+      console.error('Error adding subtask:', error)
+      toast.error(failureMessage(error, 'Failed to add subtask'))
+    }
+  }
+
+  // Toggle a subtask, completing or reopening the parent when auto-complete is on
+  const toggleSubtask = async (id: string, completed: boolean) => {
+    const subtask = subtasks.find(s => s.id === id)
+    if (!subtask || !store) return
+
+    try {
+      await store.update('subtasks', id, { completed })
+      const nextSubtasks = subtasks.map(s => s.id === id ? { ...s, completed } : s)
+
+      const parent = todos.find(todo => todo.id === subtask.todo_id)
+      if (!parent || !autoCompletesFromSubtasks(parent)) return
+
+      const siblings = nextSubtasks.filter(s => s.todo_id === parent.id)
+      const allDone = siblings.every(s => Number(s.completed) > 0)
+      const parentDone = Number(parent.completed) > 0
+      if (allDone !== parentDone) {
+        await toggleTodo(parent.id, allDone)
+      }
+    } catch (error) {
+      console.error('Error updating subtask:', error)
+      toast.error(failureMessage(error, 'Failed to update subtask'))
+    }
+  }
+
+  // Delete a subtask
+  const deleteSubtask = async (id: string) => {
+    if (!store) return
+    try {
+      await store.remove('subtasks', [id])
+    } catch (error) {
+      console.error('Error deleting subtask:', error)
+      toast.error(failureMessage(error, 'Failed to delete subtask'))
+    }
+  }
+
+  // Move a todo to the trash; its subtasks stay attached so a restore brings them back
   const deleteTodo = async (id: string) => {
+    if (!store) return
     try {
-      await blink.db.todos.delete(id)
-      setTodos(prev => prev.filter(todo => todo.id !== id))
-      toast.success('Todo deleted')
+      await store.update('todos', id, { deleted_at: new Date().toISOString() })
+      notify('Todo moved to trash', {
+        label: 'delete',
+        undo: () => store.update('todos', id, { deleted_at: undefined })
+      })
     } catch (error) {
       console.error('Error deleting todo:', error)
-      toast.error('Failed to delete todo')
+      toast.error(failureMessage(error, 'Failed to delete todo'))
+    }
+  }
+
+  // Bring a todo back from the trash
+  const restoreTodo = async (id: string) => {
+    const todo = todos.find(t => t.id === id)
+    if (!store || !todo?.deleted_at) return
+    try {
+      await store.update('todos', id, { deleted_at: undefined })
+      record({ label: 'restore', undo: () => store.update('todos', id, { deleted_at: todo.deleted_at }) })
+      toast.success('Todo restored')
+    } catch (error) {
+      console.error('Error restoring todo:', error)
+      toast.error(failureMessage(error, 'Failed to restore todo'))
+    }
+  }
+
+  // Save the current filter as a smart list and switch to it
+  const saveSmartList = async (name: string, filter: TodoFilter) => {
+    if (!user || !store) return
+    const list: SmartList = {
+      id: crypto.randomUUID(),
+      name,
+      filter: serializeFilter(filter),
+      created_at: new Date().toISOString(),
+      user_id: user.id
+    }
+    try {
+      await store.create('smart_lists', { ...list })
+      route.setSmartList(list.id)
+      toast.success(`Saved smart list “${name}”`)
+    } catch (error) {
+      console.error('Error saving smart list:', error)
+      toast.error(failureMessage(error, 'Failed to save smart list'))
+    }
+  }
+
+  const updateSmartList = async (list: SmartList, filter: TodoFilter) => {
+    if (!store) return
+    try {
+      await store.update('smart_lists', list.id, { filter: serializeFilter(filter) })
+      route.setSmartList(list.id)
+      record({ label: 'smart list edit', undo: () => store.update('smart_lists', list.id, { filter: list.filter }) })
+      toast.success(`Updated “${list.name}”`)
+    } catch (error) {
+      console.error('Error updating smart list:', error)
+      toast.error(failureMessage(error, 'Failed to update smart list'))
+    }
+  }
+
+  const deleteSmartList = async (list: SmartList) => {
+    if (!store) return
+    try {
+      await store.remove('smart_lists', [list.id])
+      if (route.smartListId === list.id) route.setSmartList(undefined)
+      notify(`Deleted “${list.name}”`, {
+        label: 'smart list delete',
+        undo: () => store.create('smart_lists', { ...list })
+      })
+    } catch (error) {
+      console.error('Error deleting smart list:', error)
+      toast.error(failureMessage(error, 'Failed to delete smart list'))
+    }
+  }
+
+  // The user's category rows, writing out the built-in set first if they have none yet
+  const ensureCategoryRows = async (): Promise<Category[]> => {
+    if (!store || !user) return []
+    const existing = store.getSnapshot().categories
+    if (existing.length > 0) return existing
+    const rows = defaultCategoryRows(user.id)
+    for (const row of rows) await store.create('categories', { ...row })
+    return rows
+  }
+
+  const createCategory = async (name: string) => {
+    if (!store || !user) return
+    try {
+      const rows = await ensureCategoryRows()
+      const slug = slugifyCategory(name, rows.map(row => row.slug))
+      const colors = Object.keys(categoryColors)
+      const category: Category = {
+        id: categoryRowId(user.id, slug),
+        slug,
+        name,
+        icon: 'folder',
+        color: colors[rows.length % colors.length],
+        position: rows.reduce((max, row) => Math.max(max, Number(row.position)), -1) + 1,
+        created_at: new Date().toISOString(),
+        user_id: user.id
+      }
+      await store.create('categories', { ...category })
+      record({ label: 'new category', undo: () => store.remove('categories', [category.id]) })
+      toast.success(`Added “${name}”`)
+    } catch (error) {
+      console.error('Error creating category:', error)
+      toast.error(failureMessage(error, 'Failed to add category'))
+    }
+  }
+
+  // Rename, restyle, or (un)archive a category
+  const updateCategory = async (slug: string, changes: CategoryChanges) => {
+    if (!store) return
+    try {
+      const rows = await ensureCategoryRows()
+      const category = rows.find(row => row.slug === slug)
+      if (!category) return
+      const remaining = rows.filter(row => row.slug !== slug && !(Number(row.archived) > 0))
+      if (changes.archived && remaining.length === 0) {
+        toast.error('Keep at least one category that isn’t archived')
+        return
+      }
+      await store.update('categories', category.id, changes)
+      if (changes.archived && selectedCategory === slug) route.setCategory('all')
+      const before = Object.fromEntries(Object.keys(changes).map(key => [key, category[key as keyof Category]]))
+      record({ label: 'category edit', undo: () => store.update('categories', category.id, before) })
+    } catch (error) {
+      console.error('Error updating category:', error)
+      toast.error(failureMessage(error, 'Failed to update category'))
+    }
+  }
+
+  // Fold one category into another: its todos (trashed ones too) and smart list conditions
+  // move over, then the category itself is deleted
+  const mergeCategories = async (sourceSlug: string, targetSlug: string) => {
+    if (!store || sourceSlug === targetSlug) return
+    try {
+      const rows = await ensureCategoryRows()
+      const source = rows.find(row => row.slug === sourceSlug)
+      const target = rows.find(row => row.slug === targetSlug)
+      if (!source || !target) return
+
+      // Categories are per user; todos others created in shared projects keep theirs
+      const moved = store.getSnapshot().todos
+        .filter(todo => todo.category === sourceSlug && todo.user_id === user?.id)
+        .map(todo => todo.id)
+      await store.updateMany('todos', moved.map(id => ({ id, changes: { category: targetSlug } })))
+
+      const rewritten = smartLists.flatMap(list => {
+        const filter = parseFilter(list.filter)
+        if (!filter?.conditions.some(c => c.field === 'category' && c.value === sourceSlug)) return []
+        const conditions = filter.conditions.map(c => c.field === 'category' && c.value === sourceSlug ? { ...c, value: targetSlug } : c)
+        return [{ list, filter: serializeFilter({ ...filter, conditions }) }]
+      })
+      for (const { list, filter } of rewritten) await store.update('smart_lists', list.id, { filter })
+
+      await store.remove('categories', [source.id])
+      if (selectedCategory === sourceSlug) route.setCategory(targetSlug)
+      notify(`Merged “${source.name}” into “${target.name}”`, {
+        label: 'category merge',
+        undo: async () => {
+          await store.create('categories', { ...source })
+          await store.updateMany('todos', moved.map(id => ({ id, changes: { category: sourceSlug } })))
+          for (const { list } of rewritten) await store.update('smart_lists', list.id, { filter: list.filter })
+        }
+      })
+    } catch (error) {
+      console.error('Error merging categories:', error)
+      toast.error(failureMessage(error, 'Failed to merge categories'))
+    }
+  }
+
+  const createProject = async (name: string, kind: Project['kind'], parentId?: string) => {
+    if (!store || !user) return
+    const project: Project = {
+      id: crypto.randomUUID(),
+      name,
+      kind,
+      parent_id: parentId,
+      position: projects.reduce((max, p) => Math.max(max, Number(p.position)), -1) + 1,
+      created_at: new Date().toISOString(),
+      user_id: user.id
+    }
+    try {
+      await store.create('projects', { ...project })
+      record({ label: `new ${kind}`, undo: () => store.remove('projects', [project.id]) })
+      route.setProject(project.id)
+    } catch (error) {
+      console.error('Error creating project:', error)
+      toast.error(failureMessage(error, `Failed to create ${kind}`))
+    }
+  }
+
+  // Rename, move into or out of an area, or archive a project
+  const updateProject = async (id: string, changes: Partial<Pick<Project, 'name' | 'parent_id' | 'archived_at'>>, label: string) => {
+    const project = projects.find(p => p.id === id)
+    if (!store || !project) return
+    try {
+      await store.update('projects', id, changes)
+      // Invitations carry the project's name for people who can't see the project yet
+      const invitationRows = members.filter(member => member.project_id === id)
+      if (changes.name && invitationRows.length > 0) {
+        await store.updateMany('project_members', invitationRows.map(member => ({ id: member.id, changes: { project_name: changes.name } })))
+      }
+      const before = Object.fromEntries(Object.keys(changes).map(key => [key, project[key as keyof Project]]))
+      record({ label, undo: () => store.update('projects', id, before) })
+    } catch (error) {
+      console.error('Error updating project:', error)
+      toast.error(failureMessage(error, 'Failed to update project'))
+    }
+  }
+
+  const archiveProject = async (id: string, archived: boolean) => {
+    const project = projects.find(p => p.id === id)
+    await updateProject(id, { archived_at: archived ? new Date().toISOString() : undefined }, archived ? 'archive' : 'unarchive')
+    if (project) toast.success(archived ? `Archived “${project.name}”` : `Unarchived “${project.name}”`)
+  }
+
+  // Areas can only be deleted once they are empty, so no todos or projects are orphaned
+  const deleteArea = async (id: string) => {
+    const area = projects.find(p => p.id === id)
+    if (!store || !area || projects.some(p => p.parent_id === id)) return
+    try {
+      await store.remove('projects', [id])
+      if (projectScope === id) route.setProject(undefined)
+      notify(`Deleted “${area.name}”`, { label: 'area delete', undo: () => store.create('projects', { ...area }) })
+    } catch (error) {
+      console.error('Error deleting area:', error)
+      toast.error(failureMessage(error, 'Failed to delete area'))
     }
   }
 
-  // Filter todos
-  const safeTodos = Array.isArray(todos) ? todos : []
-  const filteredTodos = safeTodos.filter((todo: Todo) => {
-    const matchesSearch = todo.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         todo.description.toLowerCase().includes(searchTerm.toLowerCase())
+  // Invite someone by email. The first invitation also adds the owner as a member, so the others
+  // can see and assign them.
+  const inviteMember = async (projectId: string, email: string, role: MemberRole) => {
+    const project = projects.find(p => p.id === projectId)
+    if (!store || !user || !project) return
+    const now = new Date().toISOString()
+    const common = { project_id: projectId, project_name: project.name, created_at: now, user_id: user.id }
+    try {
+      if (!members.some(member => member.project_id === projectId && member.role === 'owner')) {
+        await store.create('project_members', {
+          ...common,
+          id: crypto.randomUUID(),
+          email: normalizeEmail(user.email),
+          role: 'owner',
+          member_id: user.id,
+          accepted_at: now
+        })
+      }
+      await store.create('project_members', { ...common, id: crypto.randomUUID(), email, role })
+      toast.success(`Invited ${email}`)
+    } catch (error) {
+      console.error('Error inviting member:', error)
+      toast.error(failureMessage(error, 'Failed to send invitation'))
+    }
+  }
+
+  const changeMemberRole = async (id: string, role: MemberRole) => {
+    if (!store) return
+    try {
+      await store.update('project_members', id, { role })
+    } catch (error) {
+      console.error('Error changing role:', error)
+      toast.error(failureMessage(error, 'Failed to change role'))
+    }
+  }
+
+  // Take someone off a project (or withdraw their invitation); their todos there are unassigned
+  const removeMember = async (id: string) => {
+    const member = members.find(m => m.id === id)
+    if (!store || !member) return
+    try {
+      const assigned = todos.filter(todo => todo.project_id === member.project_id && member.member_id && todo.assignee_id === member.member_id)
+      if (assigned.length > 0) {
+        await store.updateMany('todos', assigned.map(todo => ({ id: todo.id, changes: { assignee_id: undefined } })))
+      }
+      await store.remove('project_members', [id])
+      toast.success(isAccepted(member) ? `Removed ${member.email}` : `Withdrew the invitation to ${member.email}`)
+    } catch (error) {
+      console.error('Error removing member:', error)
+      toast.error(failureMessage(error, 'Failed to remove member'))
+    }
+  }
+
+  const acceptInvitation = async (id: string) => {
+    const invitation = members.find(m => m.id === id)
+    if (!store || !user || !invitation) return
+    try {
+      await store.update('project_members', id, { member_id: user.id, accepted_at: new Date().toISOString() })
+      toast.success(`Joined “${invitation.project_name}”`)
+      // The project and its todos come down with the next pull
+      void store.sync()
+    } catch (error) {
+      console.error('Error accepting invitation:', error)
+      toast.error(failureMessage(error, 'Failed to accept invitation'))
+    }
+  }
+
+  const declineInvitation = async (id: string) => {
+    if (!store) return
+    try {
+      await store.remove('project_members', [id])
+    } catch (error) {
+      console.error('Error declining invitation:', error)
+      toast.error(failureMessage(error, 'Failed to decline invitation'))
+    }
+  }
+
+  // Leave someone else's project; it and its todos go away with the next pull
+  const leaveProject = async (projectId: string) => {
+    const project = projects.find(p => p.id === projectId)
+    const membership = members.find(m => m.project_id === projectId && m.member_id === user?.id)
+    if (!store || !project || !membership) return
+    try {
+      await store.remove('project_members', [membership.id])
+      setSharingId(null)
+      if (projectScope === projectId) route.setProject(undefined)
+      toast.success(`Left “${project.name}”`)
+      void store.sync()
+    } catch (error) {
+      console.error('Error leaving project:', error)
+      toast.error(failureMessage(error, 'Failed to leave project'))
+    }
+  }
+
+  const addComment = async (todoId: string, body: string, parentId?: string) => {
+    if (!store || !user) return
+    const comment: Comment = {
+      id: crypto.randomUUID(),
+      todo_id: todoId,
+      parent_id: parentId,
+      body,
+      author_email: user.email,
+      created_at: new Date().toISOString(),
+      user_id: user.id
+    }
+    try {
+      await store.create('comments', { ...comment })
+    } catch (error) {
+      console.error('Error adding comment:', error)
+      toast.error(failureMessage(error, 'Failed to add comment'))
+    }
+  }
+
+  // Replies go with the comment they answer
+  const deleteComment = async (id: string) => {
+    if (!store) return
+    const ids = commentBranch(comments, id)
+    const removed = comments.filter(comment => ids.includes(comment.id))
+    try {
+      await store.remove('comments', ids)
+      notify(ids.length === 1 ? 'Comment deleted' : `Deleted a comment and ${ids.length - 1} repl${ids.length === 2 ? 'y' : 'ies'}`, {
+        label: 'comment delete',
+        undo: async () => {
+          for (const comment of removed) await store.create('comments', { ...comment })
+        }
+      })
+    } catch (error) {
+      console.error('Error deleting comment:', error)
+      toast.error(failureMessage(error, 'Failed to delete comment'))
+    }
+  }
+
+  // Permanently delete todos from the trash, along with their subtasks
+  const purgeTodos = async (ids: string[]) => {
+    if (!store || ids.length === 0) return
+    try {
+      await removeTodoRows(ids)
+      toast.success(ids.length === 1 ? 'Todo deleted forever' : `${ids.length} todos deleted forever`)
+    } catch (error) {
+      console.error('Error deleting todos:', error)
+      toast.error(failureMessage(error, 'Failed to delete todos'))
+    }
+  }
+
+  // Filter todos; trashed ones only show up in the Trash view
+  const safeTodos = Array.isArray(todos) ? todos.filter(todo => !todo.deleted_at) : []
+  const trashedTodos = Array.isArray(todos) ? todos.filter(todo => todo.deleted_at) : []
+  // The todos in the project, area or inbox picked in the sidebar
+  const scopedTodos = safeTodos.filter(todo => todoInScope(todo, projectScope, projects))
+  // Plain words are ranked by the search index; the rest of the query filters exactly
+  const searchQuery = parseQuery(searchTerm, categories, { fuzzy: true })
+  const tagsByTodo = useMemo(() => groupTags(tags, todoTags), [tags, todoTags])
+  const tagNamesByTodo = useMemo(
+    () => new Map(Array.from(tagsByTodo, ([id, list]) => [id, list.map(tag => tag.name)])),
+    [tagsByTodo]
+  )
+  // Other members' tags can share a name with ours
+  const knownTags = Array.from(new Set(tags.map(tag => tag.name)))
+  const searchResult = useSearchIndex(todos, tagNamesByTodo, searchQuery.search)
+  const sortedTodos = sortTodos(scopedTodos.filter((todo: Todo) => {
+    const todoTagNames = tagNamesByTodo.get(todo.id)
+    const matchesSearch = (!searchResult || searchResult.scores.has(todo.id)) && matchesFilter(todo, searchQuery.filter, todoTagNames)
     const matchesCategory = selectedCategory === 'all' || todo.category === selectedCategory
-    return matchesSearch && matchesCategory
+    return matchesSearch && matchesCategory && (!activeFilter || matchesFilter(todo, activeFilter, todoTagNames))
+  }), sort)
+  // While searching, best matches come first and the chosen sort only breaks ties
+  const filteredTodos = searchResult
+    ? [...sortedTodos].sort((a, b) => searchResult.scores.get(b.id)! - searchResult.scores.get(a.id)!)
+    : sortedTodos
+
+  // Move a todo to `toIndex` in the visible list. Normally that writes one row; when the
+  // neighbours leave no room for a key, every todo gets a fresh position in one batch.
+  const moveTodo = async (id: string, toIndex: number) => {
+    const moved = filteredTodos.find(todo => todo.id === id)
+    if (!store || !moved) return
+    const others = filteredTodos.filter(todo => todo.id !== id)
+    const before = others[toIndex - 1]
+    const after = others[toIndex]
+
+    try {
+      const position = positionBetween(before?.position, after?.position)
+      if (position) {
+        await store.update('todos', id, { position })
+        record({ label: 'move', undo: () => store.update('todos', id, { position: moved.position }) })
+        return
+      }
+
+      // Hidden todos keep their place relative to the visible ones
+      const order = sortTodos(safeTodos, 'manual').filter(todo => todo.id !== id)
+      const insertAt = after ? order.indexOf(after) : before ? order.indexOf(before) + 1 : 0
+      order.splice(insertAt, 0, moved)
+      const positions = spreadPositions(order.length)
+      const updates = order
+        .map((todo, index) => ({ id: todo.id, changes: { position: positions[index] }, previous: todo.position }))
+        // Todos in projects shared read-only with us keep their old key
+        .filter(({ changes, previous }, index) => changes.position !== previous && canEditTodo(order[index]))
+      await store.updateMany('todos', updates)
+      record({
+        label: 'move',
+        undo: async () => {
+          await store.updateMany('todos', updates.map(({ id, previous }) => ({ id, changes: { position: previous } })))
+        }
+      })
+    } catch (error) {
+      console.error('Error moving todo:', error)
+      toast.error(failureMessage(error, 'Failed to move todo'))
+    }
+  }
+
+  const selection = useSelection(filteredTodos.map(todo => todo.id))
+
+  // Keyboard cursor for j/k/x/e; it only counts while its todo is on screen
+  const navigableTodos = showTrash ? [] : filteredTodos
+  const focusedTodo = navigableTodos.find(todo => todo.id === focusedId)
+
+  const moveFocus = (step: number) => {
+    if (navigableTodos.length === 0) return
+    const index = focusedTodo ? navigableTodos.indexOf(focusedTodo) + step : step > 0 ? 0 : navigableTodos.length - 1
+    const next = navigableTodos[Math.min(Math.max(index, 0), navigableTodos.length - 1)]
+    setFocusedId(next.id)
+    document.getElementById(next.id)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }
+
+  const focusNewTodo = () => {
+    if (showTrash) route.setView(getSavedView())
+    // After the view switch has rendered
+    requestAnimationFrame(() => newTodoInput.current?.focus())
+  }
+
+  const toggleTheme = () => setTheme(resolvedTheme === 'dark' ? 'light' : 'dark')
+
+  useShortcuts({
+    'mod+k': () => setPaletteOpen(open => !open),
+    '?': () => setShortcutsOpen(true),
+    '/': () => document.getElementById('todo-search')?.focus(),
+    n: focusNewTodo,
+    j: () => moveFocus(1),
+    k: () => moveFocus(-1),
+    x: focusedTodo && (() => toggleTodo(focusedTodo.id, !(Number(focusedTodo.completed) > 0))),
+    e: focusedTodo && (() => route.openTodo(focusedTodo.id)),
+    Escape: focusedTodo && (() => setFocusedId(null))
   })
 
-  // Get stats
-  const completedCount = safeTodos.filter((todo: Todo) => Number(todo.completed) > 0).length
-  const totalCount = safeTodos.length
-  const highPriorityCount = safeTodos.filter((todo: Todo) => todo.priority === 'high' && !(Number(todo.completed) > 0)).length
+  // Apply one change to every selected todo as a single batched write, then report the outcome
+  const applyBatch = async (
+    [verb, done]: [verb: string, done: string],
+    makeChanges: (todo: Todo) => Record<string, unknown>,
+    options: { undoToast?: boolean; afterUpdate?: (updated: Todo[]) => Promise<string[]> } = {}
+  ) => {
+    const targets = safeTodos.filter(todo => selection.selectedIds.includes(todo.id))
+    if (!store || targets.length === 0) return
 
-  // Auth state management
-  useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
-      setUser(state.user)
+    const updates = targets.map(todo => ({ id: todo.id, changes: makeChanges(todo) }))
+    const before = updates.map(({ id, changes }) => {
+      const todo = targets.find(t => t.id === id)!
+      return { id, changes: Object.fromEntries(Object.keys(changes).map(key => [key, todo[key as keyof Todo]])) }
     })
-    return unsubscribe
-  }, [])
 
-  // Load todos when user is authenticated
-  useEffect(() => {
-    if (user) {
-      loadTodos()
+    try {
+      const result = await store.updateMany('todos', updates)
+      const updated = targets.filter(todo => result.updated.includes(todo.id))
+      for (const todo of updated) {
+        await logActivity(todo.id, activityEntries(todo, updates.find(update => update.id === todo.id)!.changes))
+      }
+      const created = options.afterUpdate ? await options.afterUpdate(updated) : []
+      selection.clear()
+
+      if (result.updated.length === 0) {
+        toast.error(`Could not ${verb} the selected todos; they no longer exist`)
+        return
+      }
+      const noun = `${result.updated.length} todo${result.updated.length === 1 ? '' : 's'}`
+      const failed = result.missing.length > 0 ? ` · ${result.missing.length} could not be updated` : ''
+      const entry = {
+        label: `${verb} of ${noun}`,
+        undo: async () => {
+          const reverted = before.filter(({ id }) => result.updated.includes(id))
+          await store.updateMany('todos', reverted)
+          for (const { id, changes } of reverted) {
+            const todo = updated.find(t => t.id === id)!
+            await logActivity(id, activityEntries({ ...todo, ...updates.find(update => update.id === id)!.changes }, changes))
+          }
+          await removeTodoRows(created)
+        }
+      }
+      const message = `${done} ${noun}${failed}`
+      if (options.undoToast) {
+        notify(message, entry)
+      } else {
+        record(entry)
+        toast.success(message)
+      }
+    } catch (error) {
+      console.error(`Error during batch ${verb}:`, error)
+      toast.error(failureMessage(error, `Failed to ${verb} the selected todos`))
     }
-  }, [user])
+  }
+
+  // Recurring todos hand their schedule to a new occurrence, as with a single completion
+  const completeSelected = () => applyBatch(
+    ['complete', 'Completed'],
+    todo => !(Number(todo.completed) > 0) && parseRecurrence(todo.recurrence)
+      ? { completed: true, recurrence: undefined }
+      : { completed: true },
+    {
+      undoToast: true,
+      afterUpdate: async updated => {
+        const spawned: string[] = []
+        for (const todo of updated) {
+          const recurrence = Number(todo.completed) > 0 ? null : parseRecurrence(todo.recurrence)
+          if (!recurrence) continue
+          const id = await spawnNextOccurrence(todo, getNextOccurrence(recurrence, todo.due_date))
+          if (id) spawned.push(id)
+        }
+        return spawned
+      }
+    }
+  )
+
+  const subtasksByTodo = groupSubtasks(subtasks)
+  const categoryCounts = new Map<string, number>()
+  safeTodos.forEach(todo => categoryCounts.set(todo.category, (categoryCounts.get(todo.category) ?? 0) + 1))
+  const quickAddTokens = parseQuickAdd(newTodo, activeCategories).tokens
+
+  // Get stats, for the selected project when there is one
+  const completedCount = scopedTodos.filter((todo: Todo) => Number(todo.completed) > 0).length
+  const totalCount = scopedTodos.length
+  const highPriorityCount = scopedTodos.filter((todo: Todo) => todo.priority === 'high' && !(Number(todo.completed) > 0)).length
+  const overdueCount = scopedTodos.filter((todo: Todo) => !(Number(todo.completed) > 0) && getDueState(todo.due_date) === 'overdue').length
+  const dueTodayCount = scopedTodos.filter((todo: Todo) => !(Number(todo.completed) > 0) && getDueState(todo.due_date) === 'today').length
+
+  // Open todos per sidebar entry: each project, the inbox, and '' for everything
+  const openCounts = new Map<string, number>()
+  for (const todo of safeTodos) {
+    if (Number(todo.completed) > 0) continue
+    const keys = [todo.project_id && projects.some(p => p.id === todo.project_id) ? todo.project_id : INBOX]
+    if (todoInScope(todo, undefined, projects)) keys.push('')
+    keys.forEach(key => openCounts.set(key, (openCounts.get(key) ?? 0) + 1))
+  }
+
+  useEffect(() => {
+    localStorage.setItem(SORT_KEY, sort)
+  }, [sort])
 
-  // Create database table on first load
   useEffect(() => {
-    if (user) {
-      blink.db.sql(`
-        CREATE TABLE IF NOT EXISTS todos (
-          id TEXT PRIMARY KEY,
-          title TEXT NOT NULL,
-          description TEXT DEFAULT '',
-          category TEXT DEFAULT 'other',
-          priority TEXT DEFAULT 'medium',
-          completed BOOLEAN DEFAULT FALSE,
-          created_at TEXT NOT NULL,
-          due_date TEXT,
-          user_id TEXT NOT NULL
-        )
-      `).catch(console.error)
-    }
-  }, [user])
-
-  // Ensure todos state is always an array
+    localStorage.setItem(BOARD_GROUPING_KEY, boardGrouping)
+  }, [boardGrouping])
+
+  // /todo/:id for a todo that is gone (deleted, or a stale link): fall back to its view
+  const routeTodo = route.todoId ? safeTodos.find(todo => todo.id === route.todoId) : undefined
+  const missingRouteTodo = Boolean(route.todoId) && !isLoading && !routeTodo
+  const { closeTodo } = route
+  useEffect(() => {
+    if (!missingRouteTodo) return
+    toast.error('That task no longer exists')
+    closeTodo()
+  }, [missingRouteTodo, closeTodo])
+
+  // Same for ?project= naming a project or area that was deleted
+  const missingProject = Boolean(projectScope) && projectScope !== INBOX && !isLoading && !selectedProject
+  const { setProject } = route
+  useEffect(() => {
+    if (missingProject) setProject(undefined)
+  }, [missingProject, setProject])
+
+  // Auth state management
   useEffect(() => {
-    if (!Array.isArray(todos)) {
-      setTodos([])
+    let unsubscribe: (() => void) | undefined
+    let cancelled = false
+    loadBackend().then(({ auth }) => {
+      if (!cancelled) unsubscribe = auth.onAuthStateChanged(setUser)
+    })
+    return () => {
+      cancelled = true
+      unsubscribe?.()
     }
-  }, [todos])
+  }, [])
+
+  if (route.redirect) {
+    return <Navigate to={route.redirect} replace />
+  }
 
   if (!user) {
     return (
@@ -290,7 +1151,7 @@ function App() {
             <p className="text-sm text-gray-500 mb-4">
               Sign in to start organizing your tasks with smart categorization
             </p>
-            <Button onClick={() => blink.auth.login()} className="w-full">
+            <Button onClick={() => loadBackend().then(({ auth }) => auth.login())} className="w-full">
               Sign In
             </Button>
           </CardContent>
@@ -299,237 +1160,457 @@ function App() {
     )
   }
 
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-indigo-100">
-      <div className="max-w-6xl mx-auto p-4 py-8">
-        {/* Header */}
-        <div className="text-center mb-8">
-          <div className="flex items-center justify-center gap-3 mb-4">
-            <div className="w-12 h-12 bg-gradient-to-r from-purple-600 to-indigo-600 rounded-full flex items-center justify-center">
-              <Zap className="w-6 h-6 text-white" />
+  // Writing to a half-upgraded schema could lose data, so keep the app closed until it is fixed
+  if (migrationError) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 to-indigo-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <DatabaseZap className="w-8 h-8 text-red-600" />
             </div>
-            <h1 className="text-3xl font-bold text-gray-900">Smart Todo</h1>
-          </div>
-          <p className="text-gray-600">AI-powered task organization and prioritization</p>
-        </div>
-
-        {/* Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex items-center gap-3">
-                <CheckCircle2 className="w-8 h-8 text-green-600" />
-                <div>
-                  <p className="text-2xl font-bold text-gray-900">{completedCount}</p>
-                  <p className="text-sm text-gray-600">Completed</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex items-center gap-3">
-                <Clock className="w-8 h-8 text-blue-600" />
-                <div>
-                  <p className="text-2xl font-bold text-gray-900">{totalCount - completedCount}</p>
-                  <p className="text-sm text-gray-600">Remaining</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex items-center gap-3">
-                <AlertCircle className="w-8 h-8 text-red-600" />
-                <div>
-                  <p className="text-2xl font-bold text-gray-900">{highPriorityCount}</p>
-                  <p className="text-sm text-gray-600">High Priority</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-
-        {/* Add Todo Form */}
-        <Card className="mb-8">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Plus className="w-5 h-5" />
-              Add New Task
-            </CardTitle>
+            <CardTitle className="text-2xl font-bold">Couldn't upgrade your data</CardTitle>
+            <p className="text-gray-600">Your tasks are safe, but the app can't open until the database is updated.</p>
           </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              <Input
-                placeholder="What needs to be done?"
-                value={newTodo}
-                onChange={(e) => setNewTodo(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && !e.shiftKey && addTodo()}
-                className="text-lg"
-              />
-              <Input
-                placeholder="Add description (optional)"
-                value={newDescription}
-                onChange={(e) => setNewDescription(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && !e.shiftKey && addTodo()}
-              />
-              <Button 
-                onClick={addTodo} 
-                disabled={!newTodo.trim() || isAddingTodo}
-                className="w-full"
-              >
-                {isAddingTodo ? (
-                  <>
-                    <Zap className="w-4 h-4 mr-2 animate-spin" />
-                    AI is categorizing...
-                  </>
-                ) : (
-                  <>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Task
-                  </>
-                )}
-              </Button>
-            </div>
+          <CardContent className="text-center">
+            <p className="text-xs text-gray-500 mb-4 break-words">{migrationError}</p>
+            <Button onClick={() => window.location.reload()} className="w-full">
+              Try Again
+            </Button>
           </CardContent>
         </Card>
+      </div>
+    )
+  }
 
-        {/* Search and Filter */}
-        <Card className="mb-8">
-          <CardContent className="p-6">
-            <div className="flex flex-col sm:flex-row gap-4">
-              <div className="relative flex-1">
-                <Search className="absolute left-3 top-3 w-4 h-4 text-gray-400" />
-                <Input
-                  placeholder="Search todos..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
+  return (
+    <CategoriesContext.Provider value={categories}>
+      <SidebarProvider>
+        <ProjectSidebar
+          projects={projects}
+          counts={openCounts}
+          selected={projectScope}
+          onSelect={route.setProject}
+          onCreate={createProject}
+          onRename={(id, name) => updateProject(id, { name }, 'rename')}
+          onMove={(id, parentId) => updateProject(id, { parent_id: parentId }, 'move')}
+          onArchive={archiveProject}
+          onDeleteArea={deleteArea}
+          userId={user.id}
+          sharedIds={sharedIds}
+          invitations={invitations}
+          onAcceptInvitation={acceptInvitation}
+          onDeclineInvitation={declineInvitation}
+          onShare={setSharingId}
+        />
+        <SidebarInset className="min-h-screen bg-gradient-to-br from-purple-50 to-indigo-100 dark:from-gray-950 dark:to-gray-900">
+          <div className="max-w-6xl mx-auto p-4 py-8">
+            <SidebarTrigger className="mb-2" aria-label="Show or hide projects" />
+            {/* Header */}
+            <div className="text-center mb-8">
+              <div className="flex items-center justify-center gap-3 mb-4">
+                <div className="w-12 h-12 bg-gradient-to-r from-purple-600 to-indigo-600 rounded-full flex items-center justify-center">
+                  <Zap className="w-6 h-6 text-white" />
+                </div>
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Smart Todo</h1>
               </div>
-              <div className="flex gap-2 flex-wrap">
+              <p className="text-gray-600 dark:text-gray-400">AI-powered task organization and prioritization</p>
+              <div className="mt-3 flex items-center justify-center gap-2">
+                <SyncIndicator status={syncStatus} onSync={() => store?.sync()} />
+                <Button variant="ghost" size="sm" onClick={() => setPaletteOpen(true)} className="text-gray-500">
+                  <Command className="w-4 h-4 mr-1" />
+                  {MOD_KEY}+K
+                </Button>
                 <Button
-                  variant={selectedCategory === 'all' ? 'default' : 'outline'}
-                  onClick={() => setSelectedCategory('all')}
+                  variant="ghost"
                   size="sm"
+                  onClick={() => setShortcutsOpen(true)}
+                  className="h-8 w-8 p-0 text-gray-500"
+                  aria-label="Keyboard shortcuts"
                 >
-                  All
+                  <Keyboard className="w-4 h-4" />
                 </Button>
-                {categories.map(cat => (
-                  <Button
-                    key={cat.id}
-                    variant={selectedCategory === cat.id ? 'default' : 'outline'}
-                    onClick={() => setSelectedCategory(cat.id)}
-                    size="sm"
-                  >
-                    <cat.icon className="w-4 h-4 mr-1" />
-                    {cat.name}
-                  </Button>
-                ))}
               </div>
             </div>
-          </CardContent>
-        </Card>
 
-        {/* Todos List */}
-        <div className="space-y-4">
-          {isLoading ? (
-            <div className="text-center py-12">
-              <div className="animate-spin w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full mx-auto mb-4"></div>
-              <p className="text-gray-600">Loading your tasks...</p>
-            </div>
-          ) : filteredTodos.length === 0 ? (
-            <div className="text-center py-12">
-              <Clock className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-600">
-                {searchTerm || selectedCategory !== 'all' 
-                  ? 'No matching tasks found' 
-                  : 'No tasks yet. Add your first task above!'}
-              </p>
+            {/* Stats */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center gap-3">
+                    <CheckCircle2 className="w-8 h-8 text-green-600" />
+                    <div>
+                      <p className="text-2xl font-bold text-gray-900">{completedCount}</p>
+                      <p className="text-sm text-gray-600">Completed</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center gap-3">
+                    <Clock className="w-8 h-8 text-blue-600" />
+                    <div>
+                      <p className="text-2xl font-bold text-gray-900">{totalCount - completedCount}</p>
+                      <p className="text-sm text-gray-600">Remaining</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center gap-3">
+                    <AlertCircle className="w-8 h-8 text-red-600" />
+                    <div>
+                      <p className="text-2xl font-bold text-gray-900">{highPriorityCount}</p>
+                      <p className="text-sm text-gray-600">High Priority</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center gap-3">
+                    <CalendarClock className="w-8 h-8 text-orange-600" />
+                    <div>
+                      <p className="text-2xl font-bold text-gray-900">{overdueCount}</p>
+                      <p className="text-sm text-gray-600">
+                        Overdue{dueTodayCount > 0 && ` · ${dueTodayCount} due today`}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
             </div>
-          ) : (
-            <AnimatePresence>
-              {filteredTodos.map((todo) => {
-                const category = categories.find(cat => cat.id === todo.category)
-                const priority = priorities.find(p => p.id === todo.priority)
-                
-                return (
-                  <motion.div
-                    key={todo.id}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: -20 }}
-                    transition={{ duration: 0.2 }}
+
+            {/* Add Todo Form */}
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Plus className="w-5 h-5" />
+                  Add New Task
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <AutocompleteInput
+                    placeholder="What needs to be done? Try “Call dentist tomorrow 3pm !high #health @phone”"
+                    inputRef={newTodoInput}
+                    value={newTodo}
+                    onChange={setNewTodo}
+                    getCompletion={(text, cursor) => getQuickAddSuggestions(text, cursor, knownTags, activeCategories)}
+                    onSubmit={addTodo}
+                    className="text-lg"
+                  />
+                  <QuickAddChips tokens={quickAddTokens} />
+                  <Input
+                    placeholder="Add description (optional)"
+                    value={newDescription}
+                    onChange={(e) => setNewDescription(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && !e.shiftKey && addTodo()}
+                  />
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <DueDatePicker
+                      value={newDueDate}
+                      onChange={setNewDueDate}
+                      className="w-full sm:w-auto"
+                    />
+                    <RecurrencePicker
+                      value={newRecurrence}
+                      onChange={setNewRecurrence}
+                      dueDate={newDueDate}
+                    />
+                  </div>
+                  <Button 
+                    onClick={addTodo} 
+                    disabled={!newTodo.trim() || isAddingTodo}
+                    className="w-full"
                   >
-                    <Card className={`transition-all duration-200 hover:shadow-md ${
-                      Number(todo.completed) > 0 ? 'opacity-60 bg-gray-50' : ''
-                    }`}>
-                      <CardContent className="p-6">
-                        <div className="flex items-start gap-4">
-                          <Checkbox
-                            checked={Number(todo.completed) > 0}
-                            onCheckedChange={(checked) => toggleTodo(todo.id, checked as boolean)}
-                            className="mt-1"
-                          />
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-2 mb-2">
-                              <h3 className={`font-medium ${
-                                Number(todo.completed) > 0 ? 'line-through text-gray-500' : 'text-gray-900'
-                              }`}>
-                                {todo.title}
-                              </h3>
-                              {todo.priority === 'high' && (
-                                <Star className="w-4 h-4 text-red-500 fill-red-500" />
-                              )}
-                            </div>
-                            
-                            {todo.description && (
-                              <p className={`text-sm mb-3 ${
-                                Number(todo.completed) > 0 ? 'line-through text-gray-400' : 'text-gray-600'
-                              }`}>
-                                {todo.description}
-                              </p>
-                            )}
-                            
-                            <div className="flex items-center gap-2 flex-wrap">
-                              {category && (
-                                <Badge className={category.color}>
-                                  <category.icon className="w-3 h-3 mr-1" />
-                                  {category.name}
-                                </Badge>
-                              )}
-                              {priority && (
-                                <Badge variant="outline" className={priority.color}>
-                                  {priority.name}
-                                </Badge>
-                              )}
-                              <span className="text-xs text-gray-500">
-                                {new Date(todo.created_at).toLocaleDateString()}
-                              </span>
-                            </div>
-                          </div>
-                          
-                          <div className="flex gap-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => deleteTodo(todo.id)}
-                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  </motion.div>
-                )
-              })}
-            </AnimatePresence>
+                    {isAddingTodo ? (
+                      <>
+                        <Zap className="w-4 h-4 mr-2 animate-spin" />
+                        AI is categorizing...
+                      </>
+                    ) : (
+                      <>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Task
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Search and Filter */}
+            <Card className="mb-8">
+              <CardContent className="p-6">
+                <div className="flex flex-col sm:flex-row gap-4">
+                  <QuerySearchBox
+                    value={searchTerm}
+                    onChange={route.setQuery}
+                    errors={searchQuery.errors}
+                    tags={knownTags}
+                  />
+                  <Select value={sort} onValueChange={(value) => setSort(value as TodoSort)}>
+                    <SelectTrigger className="w-full sm:w-[160px]" aria-label="Sort">
+                      <ArrowUpDown className="w-4 h-4 text-gray-400" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {todoSorts.map(option => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FilterBuilder
+                    filter={activeFilter}
+                    onChange={route.setFilter}
+                    activeList={activeList}
+                    onSaveList={saveSmartList}
+                    onUpdateList={updateSmartList}
+                  />
+                  <div className="flex gap-2 flex-wrap">
+                    <Button
+                      variant={selectedCategory === 'all' ? 'default' : 'outline'}
+                      onClick={() => route.setCategory('all')}
+                      size="sm"
+                    >
+                      All
+                    </Button>
+                    {categories.filter(cat => !cat.archived || cat.id === selectedCategory).map(cat => (
+                      <Button
+                        key={cat.id}
+                        variant={selectedCategory === cat.id ? 'default' : 'outline'}
+                        onClick={() => route.setCategory(cat.id)}
+                        size="sm"
+                      >
+                        <cat.icon className="w-4 h-4 mr-1" />
+                        {cat.name}
+                      </Button>
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCategoriesOpen(true)}
+                      className="px-2 text-gray-500"
+                      aria-label="Manage categories"
+                    >
+                      <Settings2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant={showTrash ? 'default' : 'outline'}
+                      onClick={() => route.setView(showTrash ? getSavedView() : 'trash')}
+                      size="sm"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Trash{trashedTodos.length > 0 && ` (${trashedTodos.length})`}
+                    </Button>
+                  </div>
+                </div>
+                <SmartListNav
+                  lists={smartLists}
+                  activeId={activeList?.id}
+                  filter={activeFilter}
+                  onSelect={route.setSmartList}
+                  onDelete={deleteSmartList}
+                  onClearFilter={() => route.setFilter(null)}
+                />
+              </CardContent>
+            </Card>
+
+            {projectScope && !showTrash && (
+              <ProjectHeader
+                project={selectedProject}
+                stats={getProjectStats(scopedTodos)}
+                role={selectedProject ? projectRole(selectedProject.id, access) : undefined}
+                members={assigneesFor(selectedProject?.id)}
+                onArchive={archiveProject}
+                onShare={setSharingId}
+              />
+            )}
+
+            {/* View switcher */}
+            {!showTrash && (
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <div className="flex gap-2">
+                  <Button variant={view === 'list' ? 'default' : 'outline'} size="sm" onClick={() => route.setView('list')}>
+                    <LayoutList className="w-4 h-4 mr-1" />
+                    List
+                  </Button>
+                  <Button variant={view === 'board' ? 'default' : 'outline'} size="sm" onClick={() => route.setView('board')}>
+                    <SquareKanban className="w-4 h-4 mr-1" />
+                    Board
+                  </Button>
+                  <Button variant={view === 'calendar' ? 'default' : 'outline'} size="sm" onClick={() => route.setView('calendar')}>
+                    <CalendarDays className="w-4 h-4 mr-1" />
+                    Calendar
+                  </Button>
+                </div>
+                {view === 'board' && (
+                  <Select value={boardGrouping} onValueChange={(value) => setBoardGrouping(value as BoardGrouping)}>
+                    <SelectTrigger className="w-[160px] h-9" aria-label="Group board by">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {boardGroupings.map(option => (
+                        <SelectItem key={option.id} value={option.id}>
+                          By {option.name.toLowerCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
+            {/* Todos List */}
+            <div className="space-y-4">
+              {isLoading ? (
+                <div className="text-center py-12">
+                  <div className="animate-spin w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full mx-auto mb-4"></div>
+                  <p className="text-gray-600">Loading your tasks...</p>
+                </div>
+              ) : showTrash ? (
+                <TrashList todos={trashedTodos} onRestore={restoreTodo} onPurge={purgeTodos} />
+              ) : view === 'board' && scopedTodos.length > 0 ? (
+                <TodoBoard
+                  todos={filteredTodos}
+                  grouping={boardGrouping}
+                  onMove={moveToColumn}
+                  onToggle={toggleTodo}
+                  onEdit={route.openTodo}
+                  highlight={searchResult?.matched}
+                />
+              ) : view === 'calendar' && scopedTodos.length > 0 ? (
+                <TodoCalendar
+                  todos={filteredTodos}
+                  onReschedule={(id, dueDate) => updateTodo(id, { due_date: dueDate })}
+                  onToggle={toggleTodo}
+                  onEdit={route.openTodo}
+                />
+              ) : filteredTodos.length === 0 ? (
+                <div className="text-center py-12">
+                  <Clock className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                  <p className="text-gray-600">
+                    {searchTerm || selectedCategory !== 'all' || activeFilter?.conditions.length
+                      ? 'No matching tasks found' 
+                      : 'No tasks yet. Add your first task above!'}
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <ReorderableList
+                    items={filteredTodos}
+                    enabled={sort === 'manual' && !searchResult}
+                    onMove={moveTodo}
+                    renderItem={(todo, dragHandle) => (
+                      <TodoCard
+                        todo={todo}
+                        subtasks={subtasksByTodo.get(todo.id) ?? []}
+                        onToggle={toggleTodo}
+                        onUpdate={updateTodo}
+                        onEdit={route.openTodo}
+                        onDelete={deleteTodo}
+                        onAddSubtask={addSubtask}
+                        onToggleSubtask={toggleSubtask}
+                        onDeleteSubtask={deleteSubtask}
+                        selected={selection.isSelected(todo.id)}
+                        onSelect={selection.toggle}
+                        dragHandle={dragHandle}
+                        highlight={searchResult?.matched}
+                        focused={todo.id === focusedTodo?.id}
+                        tags={tagsByTodo.get(todo.id) ?? []}
+                        knownTags={knownTags}
+                        onTagsChange={updateTodoTags}
+                        onTagClick={(name) => route.setQuery(`tag:${name}`)}
+                        assignees={assigneesFor(todo.project_id)}
+                        readOnly={!canEditTodo(todo)}
+                      />
+                    )}
+                  />
+                  {selection.selectedIds.length > 0 && (
+                    <BatchActionBar
+                      selectedCount={selection.selectedIds.length}
+                      totalCount={filteredTodos.length}
+                      onSelectAll={selection.selectAll}
+                      onClear={selection.clear}
+                      onComplete={completeSelected}
+                      onDelete={() => applyBatch(['delete', 'Deleted'], () => ({ deleted_at: new Date().toISOString() }), { undoToast: true })}
+                      onCategoryChange={category => applyBatch(['re-categorize', 'Re-categorized'], () => ({ category, manual_override: true }))}
+                      onPriorityChange={priority => applyBatch(['re-prioritize', 'Re-prioritized'], () => ({ priority, manual_override: true }))}
+                      onReschedule={dueDate => applyBatch(['reschedule', 'Rescheduled'], () => ({ due_date: dueDate }))}
+                      projects={projects}
+                      onMove={projectId => applyBatch(['move', 'Moved'], () => ({ project_id: projectId }))}
+                    />
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          {routeTodo && (
+            <TodoEditDialog
+              key={routeTodo.id}
+              todo={routeTodo}
+              open
+              onOpenChange={(open) => !open && route.closeTodo()}
+              onSave={(changes) => updateTodo(routeTodo.id, changes)}
+              projects={projects}
+              comments={comments.filter(comment => comment.todo_id === routeTodo.id)}
+              activities={activities.filter(activity => activity.todo_id === routeTodo.id)}
+              userId={user.id}
+              onAddComment={(body, parentId) => addComment(routeTodo.id, body, parentId)}
+              onDeleteComment={deleteComment}
+            />
           )}
-        </div>
-      </div>
-    </div>
+
+          <CommandPalette
+            open={paletteOpen}
+            onOpenChange={setPaletteOpen}
+            todos={safeTodos}
+            target={focusedTodo}
+            onNewTodo={focusNewTodo}
+            onOpenTodo={(id) => {
+              setFocusedId(id)
+              route.openTodo(id)
+            }}
+            onToggle={toggleTodo}
+            onDelete={deleteTodo}
+            onSetPriority={(id, priority) => updateTodo(id, { priority, manual_override: true })}
+            onSetView={route.setView}
+            onToggleTheme={toggleTheme}
+            onShowShortcuts={() => setShortcutsOpen(true)}
+          />
+          <ShortcutHelp open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
+          <CategoryManager
+            open={categoriesOpen}
+            onOpenChange={setCategoriesOpen}
+            categories={categoryRows.length > 0 ? categoryRows : defaultCategoryRows(user.id)}
+            counts={categoryCounts}
+            onCreate={createCategory}
+            onUpdate={updateCategory}
+            onMerge={mergeCategories}
+          />
+          {sharingProject && (
+            <ShareProjectDialog
+              open
+              onOpenChange={(open) => !open && setSharingId(null)}
+              project={sharingProject}
+              members={projectMembers(members, sharingProject.id)}
+              userId={user.id}
+              role={projectRole(sharingProject.id, access) ?? 'viewer'}
+              onInvite={(email, role) => inviteMember(sharingProject.id, email, role)}
+              onChangeRole={changeMemberRole}
+              onRemove={removeMember}
+              onLeave={() => leaveProject(sharingProject.id)}
+            />
+          )}
+        </SidebarInset>
+      </SidebarProvider>
+    </CategoriesContext.Provider>
   )
 }
 
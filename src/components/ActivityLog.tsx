@@ -0,0 +1,54 @@
+import { formatDistanceToNow } from 'date-fns'
+import { CalendarClock, CheckCircle2, CircleDot, Flag, History, Plus, Sparkles, Tag, type LucideIcon } from 'lucide-react'
+import { useCategories } from '@/hooks/use-categories'
+import { describeActivity } from '@/lib/activity'
+import type { Activity, ActivityKind } from '@/types/todo'
+
+const activityIcons: Record<ActivityKind, LucideIcon> = {
+  created: Plus,
+  recategorized: Tag,
+  priority_changed: Flag,
+  completed: CheckCircle2,
+  reopened: CircleDot,
+  due_date_moved: CalendarClock
+}
+
+// A todo's history, newest first
+export function ActivityLog({ activities }: { activities: Activity[] }) {
+  const categories = useCategories()
+  const entries = [...activities].sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+  if (entries.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-gray-500">
+        <History className="w-4 h-4" />
+        No history yet.
+      </p>
+    )
+  }
+
+  return (
+    <ol className="max-h-[50vh] overflow-y-auto space-y-3 pr-1">
+      {entries.map(activity => {
+        const byAi = Number(activity.by_ai) > 0
+        const Icon = byAi ? Sparkles : activityIcons[activity.kind] ?? History
+        return (
+          <li key={activity.id} className="flex items-start gap-2 text-sm">
+            <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${byAi ? 'text-purple-600' : 'text-gray-400'}`} />
+            <p className="flex-1">
+              <span className="font-medium">{byAi ? 'AI' : activity.author_email}</span>{' '}
+              {describeActivity(activity, categories)}
+              <time
+                dateTime={activity.created_at}
+                title={new Date(activity.created_at).toLocaleString()}
+                className="ml-2 text-xs text-gray-500"
+              >
+                {formatDistanceToNow(new Date(activity.created_at), { addSuffix: true })}
+              </time>
+            </p>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
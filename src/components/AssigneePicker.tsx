@@ -0,0 +1,55 @@
+import { UserPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { MemberAvatar } from '@/components/MemberAvatar'
+import type { ProjectMember } from '@/types/todo'
+
+interface AssigneePickerProps {
+  // A member's user id; unset when nobody is assigned
+  value?: string
+  // Accepted members of the todo's project, owner included
+  members: ProjectMember[]
+  onChange: (memberId: string | undefined) => void
+  disabled?: boolean
+}
+
+// The assignee's avatar on a card, opening a menu to pick someone else
+export function AssigneePicker({ value, members, onChange, disabled = false }: AssigneePickerProps) {
+  const assignee = members.find(member => member.member_id === value)
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={disabled}>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-1 text-xs text-gray-500"
+          aria-label={assignee ? `Assigned to ${assignee.email}` : 'Assign'}
+        >
+          {assignee ? <MemberAvatar email={assignee.email} /> : <UserPlus className="w-3 h-3" />}
+          {!assignee && 'Assign'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Assign to</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={value ?? ''} onValueChange={(id) => onChange(id || undefined)}>
+          <DropdownMenuRadioItem value="">Nobody</DropdownMenuRadioItem>
+          {members.map(member => (
+            <DropdownMenuRadioItem key={member.id} value={member.member_id!} className="gap-2">
+              <MemberAvatar email={member.email} className="h-5 w-5" />
+              {member.email}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,113 @@
+import { useRef, useState, type ComponentProps, type ReactNode, type Ref } from 'react'
+import { Input } from '@/components/ui/input'
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command'
+import type { Completion, QuerySuggestion } from '@/lib/query'
+
+interface AutocompleteInputProps extends Omit<ComponentProps<typeof Input>, 'value' | 'onChange' | 'ref'> {
+  value: string
+  onChange: (value: string) => void
+  // Suggestions for the word under the cursor, or null for none
+  getCompletion: (value: string, cursor: number) => Completion | null
+  // Enter while no suggestion is showing
+  onSubmit?: () => void
+  inputRef?: Ref<HTMLInputElement>
+  // Drawn inside the input's box, e.g. a leading icon
+  adornment?: ReactNode
+  // Drawn under the input; told where the cursor is and whether the input has focus
+  footer?: (state: { cursor: number; focused: boolean }) => ReactNode
+}
+
+// Text input with a cmdk dropdown that completes the word being typed.
+// Arrow keys move through suggestions; Enter or Tab takes one; Escape hides them.
+export function AutocompleteInput({
+  value,
+  onChange,
+  getCompletion,
+  onSubmit,
+  inputRef,
+  adornment,
+  footer,
+  className,
+  ...inputProps
+}: AutocompleteInputProps) {
+  const ownRef = useRef<HTMLInputElement | null>(null)
+  const [cursor, setCursor] = useState(0)
+  const [focused, setFocused] = useState(false)
+  const [dismissed, setDismissed] = useState(false)
+  const [highlighted, setHighlighted] = useState('')
+
+  const completion = focused && !dismissed ? getCompletion(value, cursor) : null
+
+  const setRefs = (node: HTMLInputElement | null) => {
+    ownRef.current = node
+    if (typeof inputRef === 'function') inputRef(node)
+    else if (inputRef) inputRef.current = node
+  }
+
+  const apply = (suggestion: QuerySuggestion) => {
+    if (!completion) return
+    const next = value.slice(0, completion.start) + suggestion.insert + value.slice(completion.end)
+    const position = completion.start + suggestion.insert.length
+    onChange(next)
+    setCursor(position)
+    requestAnimationFrame(() => ownRef.current?.setSelectionRange(position, position))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape' && completion) {
+      e.preventDefault()
+      setDismissed(true)
+    } else if (e.key === 'Tab' && completion) {
+      e.preventDefault()
+      apply(completion.suggestions.find(s => s.insert === highlighted) ?? completion.suggestions[0])
+    } else if (e.key === 'Enter' && !completion && !e.shiftKey) {
+      // cmdk swallows Enter inside the Command, so submit from here
+      onSubmit?.()
+    }
+  }
+
+  return (
+    <Command shouldFilter={false} value={highlighted} onValueChange={setHighlighted} className="overflow-visible bg-transparent">
+      <div className="relative">
+        {adornment}
+        <Input
+          {...inputProps}
+          ref={setRefs}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setCursor(e.target.selectionStart ?? e.target.value.length)
+            setDismissed(false)
+          }}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? value.length)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          className={className}
+          role="combobox"
+          aria-expanded={Boolean(completion)}
+          aria-autocomplete="list"
+        />
+        {completion && (
+          <CommandList
+            // Keep focus in the input when a suggestion is clicked
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute top-full z-20 mt-1 w-full rounded-md border bg-popover shadow-md"
+          >
+            <CommandGroup heading="Suggestions">
+              {completion.suggestions.map(suggestion => (
+                <CommandItem key={suggestion.insert} value={suggestion.insert} onSelect={() => apply(suggestion)}>
+                  <span className="font-mono">{suggestion.label}</span>
+                  {suggestion.description && (
+                    <span className="ml-auto text-xs text-muted-foreground">{suggestion.description}</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        )}
+      </div>
+      {footer?.({ cursor, focused })}
+    </Command>
+  )
+}
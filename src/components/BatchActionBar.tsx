@@ -0,0 +1,97 @@
+import { CheckCircle2, ListChecks, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DueDatePicker } from '@/components/DueDatePicker'
+import { ProjectSelect } from '@/components/ProjectSelect'
+import { useCategories } from '@/hooks/use-categories'
+import { priorities } from '@/lib/constants'
+import type { Project, Todo } from '@/types/todo'
+
+interface BatchActionBarProps {
+  selectedCount: number
+  totalCount: number
+  onSelectAll: () => void
+  onClear: () => void
+  onComplete: () => void
+  onDelete: () => void
+  onCategoryChange: (category: Todo['category']) => void
+  onPriorityChange: (priority: Todo['priority']) => void
+  onReschedule: (dueDate: string | undefined) => void
+  projects: Project[]
+  onMove: (projectId: string | undefined) => void
+}
+
+// Floating bar for acting on every selected todo at once
+export function BatchActionBar({
+  selectedCount,
+  totalCount,
+  onSelectAll,
+  onClear,
+  onComplete,
+  onDelete,
+  onCategoryChange,
+  onPriorityChange,
+  onReschedule,
+  projects,
+  onMove
+}: BatchActionBarProps) {
+  const categories = useCategories()
+  return (
+    <Card className="sticky bottom-4 z-10 shadow-lg border-purple-200">
+      <CardContent className="p-3 flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-900 mr-1">{selectedCount} selected</span>
+        {selectedCount < totalCount && (
+          <Button variant="ghost" size="sm" onClick={onSelectAll}>
+            <ListChecks className="w-4 h-4 mr-1" />
+            Select all {totalCount}
+          </Button>
+        )}
+        <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+          <Button variant="outline" size="sm" onClick={onComplete}>
+            <CheckCircle2 className="w-4 h-4 mr-1" />
+            Complete
+          </Button>
+          <Select value="" onValueChange={onCategoryChange}>
+            <SelectTrigger className="h-9 w-[140px]">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.filter(cat => !cat.archived).map(cat => (
+                <SelectItem key={cat.id} value={cat.id}>
+                  {cat.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value="" onValueChange={(value) => onPriorityChange(value as Todo['priority'])}>
+            <SelectTrigger className="h-9 w-[130px]">
+              <SelectValue placeholder="Priority" />
+            </SelectTrigger>
+            <SelectContent>
+              {priorities.map(p => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DueDatePicker onChange={onReschedule} placeholder="Reschedule" size="sm" />
+          <ProjectSelect projects={projects} value={null} onChange={onMove} placeholder="Move to" className="h-9 w-[140px]" />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onDelete}
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClear} title="Clear selection">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
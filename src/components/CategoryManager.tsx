@@ -0,0 +1,200 @@
+import { useState } from 'react'
+import { Archive, ArchiveRestore, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { categoryColors, categoryIcons } from '@/lib/categories'
+import type { Category } from '@/types/todo'
+
+export type CategoryChanges = Partial<Pick<Category, 'name' | 'description' | 'icon' | 'color' | 'archived'>>
+
+interface CategoryManagerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // In display order; the built-in rows when the user has none of their own yet
+  categories: Category[]
+  // Todos per category slug
+  counts: Map<string, number>
+  onCreate: (name: string) => void
+  onUpdate: (slug: string, changes: CategoryChanges) => void
+  // Move every todo from `source` to `target`, then delete `source`
+  onMerge: (source: string, target: string) => void
+}
+
+// Icon and color in one popover; the trigger shows the badge as it will look
+function AppearancePicker({ category, onChange }: {
+  category: Category
+  onChange: (changes: CategoryChanges) => void
+}) {
+  const Icon = categoryIcons[category.icon] ?? categoryIcons.folder
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-9 w-9 p-0 shrink-0 ${categoryColors[category.color] ?? categoryColors.gray}`}
+          aria-label={`Icon and color for ${category.name}`}
+        >
+          <Icon className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 space-y-3">
+        <div className="grid grid-cols-6 gap-1">
+          {Object.entries(categoryIcons).map(([name, IconOption]) => (
+            <Button
+              key={name}
+              variant={name === category.icon ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => onChange({ icon: name })}
+              aria-label={name}
+              aria-pressed={name === category.icon}
+            >
+              <IconOption className="w-4 h-4" />
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(categoryColors).map(([name, classes]) => (
+            <button
+              key={name}
+              type="button"
+              className={`h-6 w-6 rounded-full ${classes} ${name === category.color ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+              onClick={() => onChange({ color: name })}
+              aria-label={name}
+              aria-pressed={name === category.color}
+            />
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function CategoryRow({ category, categories, count, onUpdate, onMerge }: {
+  category: Category
+  categories: Category[]
+  count: number
+  onUpdate: (changes: CategoryChanges) => void
+  onMerge: (target: string) => void
+}) {
+  const archived = Number(category.archived) > 0
+  const mergeTargets = categories.filter(other => other.slug !== category.slug && !(Number(other.archived) > 0))
+
+  // Text fields save on blur or Enter; keyed on the saved value so outside changes show up
+  const saveText = (field: 'name' | 'description', value: string) => {
+    const text = value.trim()
+    if (text === (category[field] ?? '') || (field === 'name' && !text)) return
+    onUpdate({ [field]: text })
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${archived ? 'opacity-60' : ''}`}>
+      <AppearancePicker category={category} onChange={onUpdate} />
+      <div className="flex-1 min-w-[160px] space-y-1">
+        <Input
+          key={`name-${category.name}`}
+          defaultValue={category.name}
+          onBlur={(e) => saveText('name', e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className="h-8"
+          aria-label="Name"
+        />
+        <Input
+          key={`description-${category.description ?? ''}`}
+          defaultValue={category.description ?? ''}
+          onBlur={(e) => saveText('description', e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          placeholder="What goes here? Helps the AI sort tasks"
+          className="h-7 text-xs"
+          aria-label="Description"
+        />
+      </div>
+      <span className="w-16 text-xs text-gray-500">{count} task{count === 1 ? '' : 's'}</span>
+      <Select value="" onValueChange={onMerge} disabled={mergeTargets.length === 0}>
+        <SelectTrigger className="h-8 w-[130px]" aria-label={`Merge ${category.name} into`}>
+          <SelectValue placeholder="Merge into…" />
+        </SelectTrigger>
+        <SelectContent>
+          {mergeTargets.map(other => (
+            <SelectItem key={other.slug} value={other.slug}>{other.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => onUpdate({ archived: !archived })}
+        aria-label={archived ? `Unarchive ${category.name}` : `Archive ${category.name}`}
+      >
+        {archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+      </Button>
+    </div>
+  )
+}
+
+// Create, rename, restyle, archive and merge the user's categories
+export function CategoryManager({ open, onOpenChange, categories, counts, onCreate, onUpdate, onMerge }: CategoryManagerProps) {
+  const [newName, setNewName] = useState('')
+  const active = categories.filter(cat => !(Number(cat.archived) > 0))
+  const archived = categories.filter(cat => Number(cat.archived) > 0)
+
+  const create = () => {
+    if (!newName.trim()) return
+    onCreate(newName.trim())
+    setNewName('')
+  }
+
+  const row = (category: Category) => (
+    <CategoryRow
+      key={category.slug}
+      category={category}
+      categories={categories}
+      count={counts.get(category.slug) ?? 0}
+      onUpdate={(changes) => onUpdate(category.slug, changes)}
+      onMerge={(target) => onMerge(category.slug, target)}
+    />
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Categories</DialogTitle>
+          <DialogDescription>
+            The AI sorts new tasks into these. Archived categories keep their tasks but are no longer offered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {active.map(row)}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && create()}
+            placeholder="New category"
+            className="h-9"
+          />
+          <Button onClick={create} disabled={!newName.trim()} size="sm" className="h-9">
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+
+        {archived.length > 0 && (
+          <div className="space-y-3 border-t pt-4">
+            <p className="text-sm font-medium text-gray-600">Archived</p>
+            {archived.map(row)}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
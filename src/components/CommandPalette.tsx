@@ -0,0 +1,152 @@
+import type { ReactNode } from 'react'
+import {
+  CalendarDays,
+  CheckCircle2,
+  Circle,
+  Keyboard,
+  LayoutList,
+  Pencil,
+  Plus,
+  SquareKanban,
+  SunMoon,
+  Trash2
+} from 'lucide-react'
+import { DialogDescription, DialogTitle } from '@/components/ui/dialog'
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut
+} from '@/components/ui/command'
+import { useCategories } from '@/hooks/use-categories'
+import type { TodoView } from '@/hooks/use-todo-route'
+import { priorities } from '@/lib/constants'
+import type { Todo } from '@/types/todo'
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  todos: Todo[]
+  // The todo the per-todo actions apply to (the keyboard-focused one)
+  target?: Todo
+  onNewTodo: () => void
+  onOpenTodo: (id: string) => void
+  onToggle: (id: string, completed: boolean) => void
+  onDelete: (id: string) => void
+  onSetPriority: (id: string, priority: Todo['priority']) => void
+  onSetView: (view: TodoView) => void
+  onToggleTheme: () => void
+  onShowShortcuts: () => void
+}
+
+const views: { id: TodoView; name: string; icon: typeof LayoutList }[] = [
+  { id: 'list', name: 'List', icon: LayoutList },
+  { id: 'board', name: 'Board', icon: SquareKanban },
+  { id: 'calendar', name: 'Calendar', icon: CalendarDays },
+  { id: 'trash', name: 'Trash', icon: Trash2 }
+]
+
+// Ctrl/Cmd+K palette: jump to a todo by title or run an action
+export function CommandPalette({
+  open,
+  onOpenChange,
+  todos,
+  target,
+  onNewTodo,
+  onOpenTodo,
+  onToggle,
+  onDelete,
+  onSetPriority,
+  onSetView,
+  onToggleTheme,
+  onShowShortcuts
+}: CommandPaletteProps) {
+  // Close first so focus returns to the page before the action moves it elsewhere
+  const run = (action: () => void) => () => {
+    onOpenChange(false)
+    action()
+  }
+
+  const item = (value: string, icon: ReactNode, label: ReactNode, action: () => void, shortcut?: string) => (
+    <CommandItem key={value} value={value} onSelect={run(action)}>
+      {icon}
+      {label}
+      {shortcut && <CommandShortcut>{shortcut}</CommandShortcut>}
+    </CommandItem>
+  )
+
+  const categories = useCategories()
+  const targetCompleted = Number(target?.completed) > 0
+
+  // cmdk needs unique values; zero-width spaces keep equal titles apart without giving the
+  // search anything extra to match
+  const seenTitles = new Map<string, number>()
+  const todoValue = (todo: Todo) => {
+    const count = seenTitles.get(todo.title) ?? 0
+    seenTitles.set(todo.title, count + 1)
+    return todo.title + '\u200b'.repeat(count)
+  }
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <DialogTitle className="sr-only">Command palette</DialogTitle>
+      <DialogDescription className="sr-only">Search todos or run a command</DialogDescription>
+      <CommandInput placeholder="Type a command or search todos…" />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {target && (
+          <>
+            <CommandGroup heading={`“${target.title}”`}>
+              {item(
+                'todo complete reopen',
+                targetCompleted ? <Circle /> : <CheckCircle2 />,
+                targetCompleted ? 'Reopen' : 'Complete',
+                () => onToggle(target.id, !targetCompleted),
+                'x'
+              )}
+              {item('todo edit', <Pencil />, 'Edit', () => onOpenTodo(target.id), 'e')}
+              {item('todo delete', <Trash2 />, 'Move to trash', () => onDelete(target.id))}
+              {priorities.filter(p => p.id !== target.priority).map(p => item(
+                `todo priority ${p.name}`,
+                <span className={`h-3 w-3 rounded-full ${p.color}`} />,
+                `Set priority to ${p.name}`,
+                () => onSetPriority(target.id, p.id as Todo['priority'])
+              ))}
+            </CommandGroup>
+            <CommandSeparator />
+          </>
+        )}
+
+        <CommandGroup heading="Actions">
+          {item('new todo add', <Plus />, 'New todo', onNewTodo, 'n')}
+          {views.map(view => item(`view ${view.name}`, <view.icon />, `Go to ${view.name}`, () => onSetView(view.id)))}
+          {item('toggle theme dark light', <SunMoon />, 'Toggle dark mode', onToggleTheme)}
+          {item('keyboard shortcuts help', <Keyboard />, 'Keyboard shortcuts', onShowShortcuts, '?')}
+        </CommandGroup>
+
+        {todos.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Todos">
+              {todos.map(todo => {
+                const category = categories.find(cat => cat.id === todo.category)
+                const Icon = category?.icon ?? Circle
+                return item(
+                  todoValue(todo),
+                  <Icon />,
+                  <span className={Number(todo.completed) > 0 ? 'line-through text-muted-foreground' : ''}>{todo.title}</span>,
+                  () => onOpenTodo(todo.id)
+                )
+              })}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
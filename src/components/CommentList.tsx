@@ -0,0 +1,125 @@
+import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { MessageSquare, Reply, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { MemberAvatar } from '@/components/MemberAvatar'
+import { buildCommentThreads, type CommentThread } from '@/lib/activity'
+import type { Comment } from '@/types/todo'
+
+interface CommentListProps {
+  comments: Comment[]
+  userId: string
+  onAdd: (body: string, parentId?: string) => void
+  // Deletes the comment and its replies
+  onDelete: (id: string) => void
+}
+
+// Replies indent up to this depth and then continue flush with their parent
+const MAX_INDENT = 3
+
+// Textarea that posts on Cmd/Ctrl+Enter or the button
+function CommentInput({ placeholder, onSubmit, onCancel, autoFocus = false }: {
+  placeholder: string
+  onSubmit: (body: string) => void
+  onCancel?: () => void
+  autoFocus?: boolean
+}) {
+  const [body, setBody] = useState('')
+  const submit = () => {
+    if (!body.trim()) return
+    onSubmit(body.trim())
+    setBody('')
+  }
+  return (
+    <div className="space-y-2">
+      <Textarea
+        autoFocus={autoFocus}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit()
+          if (e.key === 'Escape' && onCancel) {
+            e.stopPropagation()
+            onCancel()
+          }
+        }}
+        placeholder={placeholder}
+        rows={2}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>}
+        <Button size="sm" onClick={submit} disabled={!body.trim()}>Comment</Button>
+      </div>
+    </div>
+  )
+}
+
+// A todo's discussion: comments with nested replies, oldest first, and a box for a new one
+export function CommentList({ comments, userId, onAdd, onDelete }: CommentListProps) {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const threads = buildCommentThreads(comments)
+
+  const renderThread = ({ comment, replies }: CommentThread, depth: number) => (
+    <div key={comment.id} className={depth > 0 && depth <= MAX_INDENT ? 'ml-6 border-l pl-3' : ''}>
+      <div className="group flex items-start gap-2 py-2">
+        <MemberAvatar email={comment.author_email} className="mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-gray-500">
+            <span className="font-medium text-gray-800 dark:text-gray-200">{comment.author_email}</span>
+            {' · '}
+            <time dateTime={comment.created_at} title={new Date(comment.created_at).toLocaleString()}>
+              {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+            </time>
+          </p>
+          <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+          <div className="flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+            <Button variant="ghost" size="sm" className="h-6 px-1 text-xs text-gray-500" onClick={() => setReplyingTo(comment.id)}>
+              <Reply className="w-3 h-3 mr-1" />
+              Reply
+            </Button>
+            {comment.user_id === userId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-1 text-xs text-gray-500 hover:text-red-600"
+                onClick={() => onDelete(comment.id)}
+              >
+                <Trash2 className="w-3 h-3 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+      {replyingTo === comment.id && (
+        <div className="ml-8 mb-2">
+          <CommentInput
+            autoFocus
+            placeholder={`Reply to ${comment.author_email}`}
+            onSubmit={(body) => {
+              onAdd(body, comment.id)
+              setReplyingTo(null)
+            }}
+            onCancel={() => setReplyingTo(null)}
+          />
+        </div>
+      )}
+      {replies.map(reply => renderThread(reply, depth + 1))}
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      {threads.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <MessageSquare className="w-4 h-4" />
+          No comments yet.
+        </p>
+      ) : (
+        <div className="max-h-[45vh] overflow-y-auto pr-1">{threads.map(thread => renderThread(thread, 0))}</div>
+      )}
+      <CommentInput placeholder="Add a comment (Ctrl+Enter to post)" onSubmit={(body) => onAdd(body)} />
+    </div>
+  )
+}
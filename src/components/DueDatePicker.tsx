@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { CalendarDays, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { cn } from '@/lib/utils'
+import { formatDueDate, parseDueDate, toDueDateValue } from '@/lib/due-date'
+
+interface DueDatePickerProps {
+  value?: string
+  onChange: (value: string | undefined) => void
+  placeholder?: string
+  size?: 'default' | 'sm'
+  className?: string
+  disabled?: boolean
+}
+
+export function DueDatePicker({
+  value,
+  onChange,
+  placeholder = 'Set due date',
+  size = 'default',
+  className,
+  disabled
+}: DueDatePickerProps) {
+  const [open, setOpen] = useState(false)
+  const selected = parseDueDate(value)
+
+  const handleSelect = (date?: Date) => {
+    onChange(toDueDateValue(date))
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size={size}
+          disabled={disabled}
+          className={cn('justify-start font-normal', !selected && 'text-muted-foreground', className)}
+        >
+          <CalendarDays className="w-4 h-4" />
+          {selected ? formatDueDate(value) : placeholder}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={selected}
+          defaultMonth={selected}
+          onSelect={handleSelect}
+        />
+        {selected && (
+          <div className="border-t p-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => handleSelect(undefined)}
+            >
+              <X className="w-4 h-4" />
+              Clear due date
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
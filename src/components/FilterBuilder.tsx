@@ -0,0 +1,267 @@
+import { useState } from 'react'
+import { AlertCircle, Filter, Plus, Save, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useCategories } from '@/hooks/use-categories'
+import { priorities } from '@/lib/constants'
+import {
+  completeConditions,
+  defaultCondition,
+  dueRanges,
+  EMPTY_FILTER,
+  filterFields,
+  statusOptions,
+  type FilterCondition,
+  type FilterField,
+  type TodoFilter
+} from '@/lib/filters'
+import { formatQuery, parseQuery } from '@/lib/query'
+import type { SmartList } from '@/types/todo'
+
+interface FilterBuilderProps {
+  filter: TodoFilter | null
+  onChange: (filter: TodoFilter | null) => void
+  // The smart list the filter came from, offered for updating in place
+  activeList?: SmartList
+  onSaveList: (name: string, filter: TodoFilter) => void
+  onUpdateList: (list: SmartList, filter: TodoFilter) => void
+}
+
+const selectOptions: Partial<Record<FilterField, { id: string; name: string }[]>> = {
+  priority: priorities,
+  status: statusOptions,
+  due: dueRanges
+}
+
+function ConditionRow({ condition, onChange, onRemove }: {
+  condition: FilterCondition
+  onChange: (condition: FilterCondition) => void
+  onRemove: () => void
+}) {
+  const categories = useCategories()
+  // Archived categories stay selectable only in a condition that already uses one
+  const options = condition.field === 'category'
+    ? categories.filter(cat => !cat.archived || cat.id === condition.value)
+    : selectOptions[condition.field]
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={condition.field} onValueChange={(field) => onChange(defaultCondition(field as FilterField, categories))}>
+        <SelectTrigger className="h-8 w-[110px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {filterFields.map(field => (
+            <SelectItem key={field.id} value={field.id}>{field.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={condition.negate ? 'not' : 'is'}
+        onValueChange={(value) => onChange({ ...condition, negate: value === 'not' })}
+      >
+        <SelectTrigger className="h-8 w-[90px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="is">is</SelectItem>
+          <SelectItem value="not">is not</SelectItem>
+        </SelectContent>
+      </Select>
+      {options ? (
+        <Select
+          value={condition.value}
+          onValueChange={(value) => onChange({ ...condition, value } as FilterCondition)}
+        >
+          <SelectTrigger className="h-8 w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value } as FilterCondition)}
+          placeholder={condition.field === 'tag' ? 'tag' : 'text'}
+          className="h-8 w-[150px]"
+        />
+      )}
+      {condition.field === 'due' && condition.value === 'next_days' && (
+        <Input
+          type="number"
+          min={0}
+          value={condition.days ?? 7}
+          onChange={(e) => onChange({ ...condition, days: Math.max(0, Number(e.target.value) || 0) })}
+          className="h-8 w-[70px]"
+          aria-label="Days"
+        />
+      )}
+      {condition.field === 'due' && (condition.value === 'before' || condition.value === 'after') && (
+        <Input
+          type="date"
+          value={condition.date ?? ''}
+          onChange={(e) => onChange({ ...condition, date: e.target.value || undefined })}
+          className="h-8 w-[150px]"
+          aria-label="Date"
+        />
+      )}
+      <Button variant="ghost" size="sm" onClick={onRemove} className="h-8 w-8 p-0" aria-label="Remove condition">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  )
+}
+
+// Popover for building an AND/OR filter and saving it as a smart list
+export function FilterBuilder({ filter, onChange, activeList, onSaveList, onUpdateList }: FilterBuilderProps) {
+  const [open, setOpen] = useState(false)
+  // Rows being typed into are kept here; only complete conditions reach the URL
+  const [draft, setDraft] = useState<TodoFilter>(filter ?? EMPTY_FILTER)
+  const [listName, setListName] = useState('')
+  // Editing turns a smart list into an ad-hoc filter, so remember which list we started from
+  const [sourceList, setSourceList] = useState<SmartList>()
+  // The same filter written in the search query language; undefined when it has no query form
+  const [queryText, setQueryText] = useState<string | undefined>('')
+  const categories = useCategories()
+  const queryErrors = parseQuery(queryText ?? '', categories).errors
+
+  const activeCount = filter?.conditions.length ?? 0
+  const applied = completeConditions(draft)
+
+  const update = (next: TodoFilter, fromQuery = false) => {
+    setDraft(next)
+    if (!fromQuery) setQueryText(formatQuery(completeConditions(next)))
+    onChange(completeConditions(next))
+  }
+  const updateQuery = (text: string) => {
+    setQueryText(text)
+    const parsed = parseQuery(text, categories)
+    if (parsed.errors.length === 0) update(parsed.filter, true)
+  }
+  const updateCondition = (index: number, condition: FilterCondition) =>
+    update({ ...draft, conditions: draft.conditions.map((c, i) => i === index ? condition : c) })
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setDraft(filter ?? EMPTY_FILTER)
+      setQueryText(formatQuery(filter ?? EMPTY_FILTER))
+      setListName('')
+      setSourceList(activeList)
+    }
+    setOpen(next)
+  }
+
+  const handleSave = () => {
+    if (!listName.trim() || applied.conditions.length === 0) return
+    onSaveList(listName.trim(), applied)
+    setListName('')
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant={activeCount > 0 ? 'default' : 'outline'} size="sm">
+          <Filter className="w-4 h-4 mr-1" />
+          Filters
+          {activeCount > 0 && <Badge variant="secondary" className="ml-1 px-1.5">{activeCount}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[min(100vw-2rem,560px)] space-y-3">
+        <div className="flex items-center gap-2 text-sm">
+          Show tasks matching
+          <Select value={draft.match} onValueChange={(match) => update({ ...draft, match: match as TodoFilter['match'] })}>
+            <SelectTrigger className="h-8 w-[80px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">all</SelectItem>
+              <SelectItem value="any">any</SelectItem>
+            </SelectContent>
+          </Select>
+          of these conditions
+        </div>
+
+        <div className="space-y-1">
+          <Input
+            value={queryText ?? ''}
+            onChange={(e) => updateQuery(e.target.value)}
+            disabled={queryText === undefined}
+            placeholder={queryText === undefined ? '“Any” filters have no query form' : 'Or type a query, e.g. priority:high due:<7d'}
+            className="h-8 font-mono text-xs"
+            aria-label="Filter query"
+          />
+          {queryErrors.map(error => (
+            <p key={`${error.start}-${error.message}`} className="flex items-center gap-1 text-xs text-red-600">
+              <AlertCircle className="w-3 h-3 shrink-0" />
+              {error.message}
+            </p>
+          ))}
+        </div>
+
+        {draft.conditions.length === 0 ? (
+          <p className="text-sm text-gray-500">No conditions yet</p>
+        ) : (
+          <div className="space-y-2">
+            {draft.conditions.map((condition, index) => (
+              <ConditionRow
+                key={index}
+                condition={condition}
+                onChange={(next) => updateCondition(index, next)}
+                onRemove={() => update({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ ...draft, conditions: [...draft.conditions, defaultCondition('priority', categories)] })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add condition
+          </Button>
+          {draft.conditions.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => update(EMPTY_FILTER)}>
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {applied.conditions.length > 0 && (
+          <div className="border-t pt-3 space-y-2">
+            {sourceList && (
+              <Button variant="outline" size="sm" className="w-full" onClick={() => {
+                onUpdateList(sourceList, applied)
+                setOpen(false)
+              }}>
+                <Save className="w-4 h-4 mr-1" />
+                Update “{sourceList.name}”
+              </Button>
+            )}
+            <div className="flex gap-2">
+              <Input
+                value={listName}
+                onChange={(e) => setListName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="Save as smart list, e.g. High priority work"
+                className="h-8"
+              />
+              <Button size="sm" onClick={handleSave} disabled={!listName.trim()}>
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
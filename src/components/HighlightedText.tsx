@@ -0,0 +1,18 @@
+import { highlightSegments } from '@/lib/search-index'
+
+interface HighlightedTextProps {
+  text: string
+  // Normalized words to mark, from a search result
+  words?: Set<string>
+}
+
+export function HighlightedText({ text, words }: HighlightedTextProps) {
+  if (!words || words.size === 0) return <>{text}</>
+  return (
+    <>
+      {highlightSegments(text, words).map((segment, index) => segment.match
+        ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">{segment.text}</mark>
+        : segment.text)}
+    </>
+  )
+}
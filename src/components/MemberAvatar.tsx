@@ -0,0 +1,34 @@
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { cn } from '@/lib/utils'
+
+const avatarColors = [
+  'bg-purple-100 text-purple-700',
+  'bg-blue-100 text-blue-700',
+  'bg-green-100 text-green-700',
+  'bg-orange-100 text-orange-700',
+  'bg-pink-100 text-pink-700',
+  'bg-teal-100 text-teal-700'
+]
+
+// "ada.lovelace@…" → "AL", "ada@…" → "AD"
+function initials(email: string): string {
+  const parts = email.split('@')[0].split(/[._-]+/).filter(Boolean)
+  const letters = parts.length > 1 ? parts[0][0] + parts[1][0] : (parts[0] ?? '?').slice(0, 2)
+  return letters.toUpperCase()
+}
+
+// Same email, same color, on every card
+function colorFor(email: string): string {
+  let hash = 0
+  for (const char of email) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return avatarColors[Math.abs(hash) % avatarColors.length]
+}
+
+// Initials in a colored circle; members only have an email to go by
+export function MemberAvatar({ email, className }: { email: string; className?: string }) {
+  return (
+    <Avatar className={cn('h-6 w-6 text-[10px] font-medium', className)} title={email}>
+      <AvatarFallback className={colorFor(email.toLowerCase())}>{initials(email)}</AvatarFallback>
+    </Avatar>
+  )
+}
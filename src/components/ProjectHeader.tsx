@@ -0,0 +1,75 @@
+import { Archive, ArchiveRestore, Folder, Inbox, Layers, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { MemberAvatar } from '@/components/MemberAvatar'
+import { roleNames } from '@/data/permissions'
+import type { ProjectStats } from '@/lib/projects'
+import type { Project, ProjectMember, ProjectRole } from '@/types/todo'
+
+interface ProjectHeaderProps {
+  // Unset for the inbox
+  project?: Project
+  stats: ProjectStats
+  // The signed-in user's role in the project
+  role?: ProjectRole
+  // Accepted members, owner included; empty when the project isn't shared
+  members: ProjectMember[]
+  onArchive: (id: string, archived: boolean) => void
+  onShare: (id: string) => void
+}
+
+// Name, progress and counts for the selected project, area or inbox
+export function ProjectHeader({ project, stats, role, members, onArchive, onShare }: ProjectHeaderProps) {
+  const Icon = !project ? Inbox : project.kind === 'area' ? Layers : Folder
+  const isProject = project?.kind === 'project'
+  const canArchive = isProject && role === 'owner'
+  // Offer archiving prominently once everything in the project is done
+  const finished = stats.total > 0 && stats.open === 0
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Icon className="w-5 h-5 text-purple-600" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{project?.name ?? 'Inbox'}</h2>
+          {project?.archived_at && <span className="text-xs text-gray-500">Archived</span>}
+          {role && role !== 'owner' && <span className="text-xs text-gray-500">{roleNames[role]}</span>}
+          {isProject && (
+            <div className="ml-auto flex items-center gap-2">
+              {members.length > 0 && (
+                <div className="flex -space-x-2">
+                  {members.slice(0, 5).map(member => (
+                    <MemberAvatar key={member.id} email={member.email} className="ring-2 ring-white dark:ring-gray-900" />
+                  ))}
+                </div>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => onShare(project.id)}>
+                <Users className="w-4 h-4 mr-1" />
+                {role === 'owner' ? 'Share' : 'Members'}
+              </Button>
+            </div>
+          )}
+          {canArchive && (
+            <Button
+              variant={finished && !project.archived_at ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => onArchive(project.id, !project.archived_at)}
+            >
+              {project.archived_at ? <ArchiveRestore className="w-4 h-4 mr-1" /> : <Archive className="w-4 h-4 mr-1" />}
+              {project.archived_at ? 'Unarchive' : 'Archive project'}
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <Progress value={stats.progress} className="h-2 flex-1" aria-label="Completed" />
+          <span className="text-sm font-medium tabular-nums text-gray-700 dark:text-gray-300">{stats.progress}%</span>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {stats.open} open · {stats.completed} done
+          {stats.overdue > 0 && <span className="text-red-600"> · {stats.overdue} overdue</span>}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
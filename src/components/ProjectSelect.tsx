@@ -0,0 +1,35 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { INBOX, isArchived, projectLabel } from '@/lib/projects'
+import type { Project } from '@/types/todo'
+
+interface ProjectSelectProps {
+  projects: Project[]
+  // The todo's project_id (undefined for the inbox); null shows the placeholder instead
+  value: string | undefined | null
+  onChange: (projectId: string | undefined) => void
+  placeholder?: string
+  className?: string
+}
+
+// Pick the project a todo belongs to; archived projects are only listed when already chosen
+export function ProjectSelect({ projects, value, onChange, placeholder, className }: ProjectSelectProps) {
+  const options = projects.filter(p => p.kind === 'project' && (!isArchived(p) || p.id === value))
+  return (
+    <Select
+      value={value === null ? '' : value ?? INBOX}
+      onValueChange={(next) => onChange(next === INBOX ? undefined : next)}
+    >
+      <SelectTrigger className={className} aria-label="Project">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={INBOX}>Inbox</SelectItem>
+        {options.map(project => (
+          <SelectItem key={project.id} value={project.id}>
+            {projectLabel(project, projects)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,380 @@
+import { useState } from 'react'
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  ChevronRight,
+  Folder,
+  FolderInput,
+  Inbox,
+  Layers,
+  ListTodo,
+  Mail,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+  Users,
+  X
+} from 'lucide-react'
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem
+} from '@/components/ui/sidebar'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { Button } from '@/components/ui/button'
+import { buildProjectTree, INBOX } from '@/lib/projects'
+import type { Project, ProjectMember } from '@/types/todo'
+
+interface ProjectSidebarProps {
+  projects: Project[]
+  // Open todos per project id, plus INBOX and '' for everything
+  counts: Map<string, number>
+  // The route's ?project= value; undefined shows everything
+  selected?: string
+  onSelect: (scope: string | undefined) => void
+  onCreate: (name: string, kind: Project['kind'], parentId?: string) => void
+  onRename: (id: string, name: string) => void
+  // Put a project into an area, or take it out with undefined
+  onMove: (id: string, parentId: string | undefined) => void
+  onArchive: (id: string, archived: boolean) => void
+  // Only offered for areas with no projects left
+  onDeleteArea: (id: string) => void
+  userId: string
+  // Ids of projects with members, shown with a people icon
+  sharedIds: Set<string>
+  // Invitations to other people's projects waiting for an answer
+  invitations: ProjectMember[]
+  onAcceptInvitation: (id: string) => void
+  onDeclineInvitation: (id: string) => void
+  // Open the members dialog for a project
+  onShare: (id: string) => void
+}
+
+// What the inline name field is for: a rename, or a new project/area (optionally inside an area)
+type Editing = { rename: string } | { create: Project['kind']; parentId?: string }
+
+// Saves on Enter or blur, gives up on Escape or an empty name
+function NameInput({ initial = '', placeholder, onDone }: {
+  initial?: string
+  placeholder: string
+  onDone: (name: string | undefined) => void
+}) {
+  const [value, setValue] = useState(initial)
+  return (
+    <SidebarInput
+      autoFocus
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={() => onDone(value.trim() || undefined)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur()
+        if (e.key === 'Escape') {
+          e.stopPropagation()
+          onDone(undefined)
+        }
+      }}
+      className="h-7"
+    />
+  )
+}
+
+// Project navigation: all todos, the inbox, areas with their projects, and archived projects
+export function ProjectSidebar({
+  projects,
+  counts,
+  selected,
+  onSelect,
+  onCreate,
+  onRename,
+  onMove,
+  onArchive,
+  onDeleteArea,
+  userId,
+  sharedIds,
+  invitations,
+  onAcceptInvitation,
+  onDeclineInvitation,
+  onShare
+}: ProjectSidebarProps) {
+  const [editing, setEditing] = useState<Editing | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const tree = buildProjectTree(projects)
+  const areas = tree.areas.map(({ area }) => area)
+
+  const finishEditing = (name: string | undefined) => {
+    if (name && editing) {
+      if ('rename' in editing) onRename(editing.rename, name)
+      else onCreate(name, editing.create, editing.parentId)
+    }
+    setEditing(null)
+  }
+
+  const badge = (id: string) => {
+    const count = counts.get(id) ?? 0
+    return count > 0 ? <SidebarMenuBadge>{count}</SidebarMenuBadge> : null
+  }
+
+  const projectIcon = (project: Project) => sharedIds.has(project.id) ? <Users /> : <Folder />
+
+  const projectMenu = (project: Project) => project.user_id !== userId ? (
+    // Someone else's project: only its members list, where it can also be left
+    <SidebarMenuAction showOnHover aria-label={`Members of ${project.name}`} onClick={() => onShare(project.id)}>
+      <Users />
+    </SidebarMenuAction>
+  ) : (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <SidebarMenuAction showOnHover aria-label={`Actions for ${project.name}`}>
+          <MoreHorizontal />
+        </SidebarMenuAction>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="right" align="start">
+        {project.kind === 'project' && (
+          <DropdownMenuItem onSelect={() => onShare(project.id)}>
+            <Users />
+            Share…
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onSelect={() => setEditing({ rename: project.id })}>
+          <Pencil />
+          Rename
+        </DropdownMenuItem>
+        {project.kind === 'project' && !project.archived_at && areas.length > 0 && (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <FolderInput />
+              Move to area
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {areas.filter(area => area.id !== project.parent_id).map(area => (
+                <DropdownMenuItem key={area.id} onSelect={() => onMove(project.id, area.id)}>
+                  <Layers />
+                  {area.name}
+                </DropdownMenuItem>
+              ))}
+              {project.parent_id && (
+                <DropdownMenuItem onSelect={() => onMove(project.id, undefined)}>No area</DropdownMenuItem>
+              )}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
+        {project.kind === 'area' && (
+          <DropdownMenuItem onSelect={() => setEditing({ create: 'project', parentId: project.id })}>
+            <Plus />
+            New project here
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuSeparator />
+        {project.kind === 'project' ? (
+          <DropdownMenuItem onSelect={() => onArchive(project.id, !project.archived_at)}>
+            {project.archived_at ? <ArchiveRestore /> : <Archive />}
+            {project.archived_at ? 'Unarchive' : 'Archive'}
+          </DropdownMenuItem>
+        ) : (
+          <DropdownMenuItem
+            disabled={projects.some(p => p.parent_id === project.id)}
+            onSelect={() => onDeleteArea(project.id)}
+          >
+            <Trash2 />
+            Delete area
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+
+  // A project row, or the rename field in its place
+  const projectItem = (project: Project) => (
+    <SidebarMenuItem key={project.id}>
+      {editing && 'rename' in editing && editing.rename === project.id ? (
+        <NameInput initial={project.name} placeholder="Project name" onDone={finishEditing} />
+      ) : (
+        <>
+          <SidebarMenuButton isActive={selected === project.id} onClick={() => onSelect(project.id)}>
+            {projectIcon(project)}
+            <span>{project.name}</span>
+          </SidebarMenuButton>
+          {badge(project.id)}
+          {projectMenu(project)}
+        </>
+      )}
+    </SidebarMenuItem>
+  )
+
+  const creating = editing && 'create' in editing ? editing : null
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton isActive={!selected} onClick={() => onSelect(undefined)}>
+              <ListTodo />
+              <span>All tasks</span>
+            </SidebarMenuButton>
+            {badge('')}
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton isActive={selected === INBOX} onClick={() => onSelect(INBOX)}>
+              <Inbox />
+              <span>Inbox</span>
+            </SidebarMenuButton>
+            {badge(INBOX)}
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarHeader>
+
+      <SidebarContent>
+        {invitations.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Invitations</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {invitations.map(invitation => (
+                  <SidebarMenuItem key={invitation.id} className="flex items-center gap-1 px-2 py-1 text-sm">
+                    <Mail className="w-4 h-4 shrink-0 text-purple-600" />
+                    <span className="flex-1 truncate" title={invitation.project_name}>{invitation.project_name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 text-green-700"
+                      onClick={() => onAcceptInvitation(invitation.id)}
+                      aria-label={`Join ${invitation.project_name}`}
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 text-gray-500"
+                      onClick={() => onDeclineInvitation(invitation.id)}
+                      aria-label={`Decline ${invitation.project_name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Projects</SidebarGroupLabel>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <SidebarGroupAction aria-label="New project or area">
+                <Plus />
+              </SidebarGroupAction>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="right" align="start">
+              <DropdownMenuItem onSelect={() => setEditing({ create: 'project' })}>
+                <Folder />
+                New project
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setEditing({ create: 'area' })}>
+                <Layers />
+                New area
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {tree.areas.map(({ area, projects: areaProjects }) => (
+                <SidebarMenuItem key={area.id}>
+                  {editing && 'rename' in editing && editing.rename === area.id ? (
+                    <NameInput initial={area.name} placeholder="Area name" onDone={finishEditing} />
+                  ) : (
+                    <>
+                      <SidebarMenuButton isActive={selected === area.id} onClick={() => onSelect(area.id)}>
+                        <Layers />
+                        <span>{area.name}</span>
+                      </SidebarMenuButton>
+                      {projectMenu(area)}
+                    </>
+                  )}
+                  {(areaProjects.length > 0 || creating?.parentId === area.id) && (
+                    <SidebarMenuSub>
+                      {areaProjects.map(project => (
+                        <SidebarMenuSubItem key={project.id} className="relative">
+                          {editing && 'rename' in editing && editing.rename === project.id ? (
+                            <NameInput initial={project.name} placeholder="Project name" onDone={finishEditing} />
+                          ) : (
+                            <>
+                              <SidebarMenuSubButton asChild isActive={selected === project.id}>
+                                <button type="button" className="w-full" onClick={() => onSelect(project.id)}>
+                                  {projectIcon(project)}
+                                  <span>{project.name}</span>
+                                  {(counts.get(project.id) ?? 0) > 0 && (
+                                    <span className="ml-auto text-xs tabular-nums">{counts.get(project.id)}</span>
+                                  )}
+                                </button>
+                              </SidebarMenuSubButton>
+                              {projectMenu(project)}
+                            </>
+                          )}
+                        </SidebarMenuSubItem>
+                      ))}
+                      {creating?.parentId === area.id && (
+                        <SidebarMenuSubItem>
+                          <NameInput placeholder="Project name" onDone={finishEditing} />
+                        </SidebarMenuSubItem>
+                      )}
+                    </SidebarMenuSub>
+                  )}
+                </SidebarMenuItem>
+              ))}
+              {tree.projects.map(projectItem)}
+              {creating && !creating.parentId && (
+                <SidebarMenuItem>
+                  <NameInput placeholder={creating.create === 'area' ? 'Area name' : 'Project name'} onDone={finishEditing} />
+                </SidebarMenuItem>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        {tree.archived.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel asChild>
+              <button type="button" onClick={() => setShowArchived(show => !show)}>
+                <ChevronRight className={`transition-transform ${showArchived ? 'rotate-90' : ''}`} />
+                Archived ({tree.archived.length})
+              </button>
+            </SidebarGroupLabel>
+            {showArchived && (
+              <SidebarGroupContent>
+                <SidebarMenu>{tree.archived.map(projectItem)}</SidebarMenu>
+              </SidebarGroupContent>
+            )}
+          </SidebarGroup>
+        )}
+      </SidebarContent>
+    </Sidebar>
+  )
+}
@@ -0,0 +1,48 @@
+import { AlertCircle, Search } from 'lucide-react'
+import { AutocompleteInput } from '@/components/AutocompleteInput'
+import { useCategories } from '@/hooks/use-categories'
+import { getQuerySuggestions, type QueryError } from '@/lib/query'
+
+interface QuerySearchBoxProps {
+  value: string
+  onChange: (value: string) => void
+  errors: QueryError[]
+  // Existing tags, offered after "tag:"
+  tags: string[]
+}
+
+// Search input for the query language, with field/value autocomplete and inline parse errors
+export function QuerySearchBox({ value, onChange, errors, tags }: QuerySearchBoxProps) {
+  const categories = useCategories()
+  return (
+    <div className="flex-1">
+      <AutocompleteInput
+        id="todo-search"
+        placeholder='Search, e.g. priority:high due:<7d -is:done "exact phrase"'
+        value={value}
+        onChange={onChange}
+        getCompletion={(text, cursor) => getQuerySuggestions(text, cursor, tags, categories)}
+        adornment={<Search className="absolute left-3 top-3 w-4 h-4 text-gray-400" />}
+        className={`pl-10 ${errors.length > 0 ? 'border-red-300 focus-visible:ring-red-300' : ''}`}
+        aria-invalid={errors.length > 0}
+        aria-describedby={errors.length > 0 ? 'search-errors' : undefined}
+        footer={({ cursor, focused }) => {
+          // The term being typed is usually incomplete, so only complain once the cursor moves on
+          const shown = errors.filter(error => !(focused && error.start <= cursor && cursor <= error.end))
+          if (shown.length === 0) return null
+          return (
+            <div id="search-errors" className="mt-1 space-y-0.5" aria-live="polite">
+              {shown.map(error => (
+                <p key={`${error.start}-${error.message}`} className="flex items-center gap-1 text-xs text-red-600">
+                  <AlertCircle className="w-3 h-3 shrink-0" />
+                  <span className="font-mono">{value.slice(error.start, error.end)}</span>
+                  {error.message}
+                </p>
+              ))}
+            </div>
+          )
+        }}
+      />
+    </div>
+  )
+}
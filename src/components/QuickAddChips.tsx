@@ -0,0 +1,39 @@
+import { AlertCircle, CalendarDays, Clock, Folder, Hash, Repeat } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import type { QuickAddToken, QuickAddTokenKind } from '@/lib/quick-add'
+
+const tokenStyles: Record<QuickAddTokenKind, { icon: typeof Clock; color: string }> = {
+  date: { icon: CalendarDays, color: 'bg-sky-100 text-sky-800' },
+  time: { icon: Clock, color: 'bg-sky-100 text-sky-800' },
+  priority: { icon: AlertCircle, color: 'bg-red-100 text-red-800' },
+  category: { icon: Folder, color: 'bg-purple-100 text-purple-800' },
+  tag: { icon: Hash, color: 'bg-gray-100 text-gray-700' },
+  recurrence: { icon: Repeat, color: 'bg-indigo-50 text-indigo-700' }
+}
+
+interface QuickAddChipsProps {
+  tokens: QuickAddToken[]
+}
+
+export function QuickAddChips({ tokens }: QuickAddChipsProps) {
+  if (tokens.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" aria-live="polite">
+      {tokens.map((token, index) => {
+        const style = tokenStyles[token.kind]
+        return (
+          <Badge
+            key={`${token.kind}-${index}`}
+            variant="outline"
+            className={`${style.color} border-transparent`}
+            title={`From "${token.text}"`}
+          >
+            <style.icon className="w-3 h-3 mr-1" />
+            {token.label}
+          </Badge>
+        )
+      })}
+    </div>
+  )
+}
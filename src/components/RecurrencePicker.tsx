@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { Repeat } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { cn } from '@/lib/utils'
+import {
+  defaultRecurrence,
+  parseRecurrence,
+  recurrenceTypes,
+  serializeRecurrence,
+  weekdayNames,
+  type Recurrence,
+  type RecurrenceType
+} from '@/lib/recurrence'
+
+interface RecurrencePickerProps {
+  value?: string
+  onChange: (value: string | undefined) => void
+  dueDate?: string
+  className?: string
+}
+
+export function RecurrencePicker({ value, onChange, dueDate, className }: RecurrencePickerProps) {
+  // The mode last picked here. Mon–Fri toggled on in weekly mode serializes the same as "Every
+  // weekday", and the picker should stay in weekly mode rather than hide the days being clicked.
+  const [mode, setMode] = useState<RecurrenceType | undefined>()
+  const parsed = parseRecurrence(value)
+  const recurrence: Recurrence | null = parsed?.type === 'weekdays' && mode === 'weekly'
+    ? { type: 'weekly', days: [1, 2, 3, 4, 5] }
+    : parsed
+
+  const handleTypeChange = (type: string) => {
+    setMode(type === 'none' ? undefined : type as RecurrenceType)
+    onChange(type === 'none' ? undefined : serializeRecurrence(defaultRecurrence(type as RecurrenceType, dueDate)))
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      <Select value={recurrence?.type ?? 'none'} onValueChange={handleTypeChange}>
+        <SelectTrigger className="w-auto min-w-[10rem]">
+          <Repeat className="w-4 h-4 mr-2 text-gray-500" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          {recurrenceTypes.map(type => (
+            <SelectItem key={type.id} value={type.id}>
+              {type.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {recurrence?.type === 'weekly' && (
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          variant="outline"
+          value={recurrence.days.map(String)}
+          onValueChange={(days) => {
+            // Keep at least one day selected; an empty weekly rule never fires
+            if (days.length === 0) return
+            setMode('weekly')
+            onChange(serializeRecurrence({ type: 'weekly', days: days.map(Number) }))
+          }}
+        >
+          {weekdayNames.map((name, day) => (
+            <ToggleGroupItem key={name} value={String(day)} className="px-2 text-xs">
+              {name.slice(0, 2)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {recurrence?.type === 'monthly' && (
+        <Input
+          type="number"
+          min={1}
+          max={31}
+          value={recurrence.day}
+          onChange={(e) => {
+            const day = Math.min(31, Math.max(1, Number(e.target.value) || 1))
+            onChange(serializeRecurrence({ type: 'monthly', day }))
+          }}
+          className="w-20"
+          aria-label="Day of month"
+        />
+      )}
+
+      {recurrence?.type === 'after_completion' && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            value={recurrence.interval}
+            onChange={(e) => {
+              const interval = Math.max(1, Math.floor(Number(e.target.value) || 1))
+              onChange(serializeRecurrence({ type: 'after_completion', interval }))
+            }}
+            className="w-20"
+            aria-label="Days after completion"
+          />
+          <span className="text-sm text-gray-600">days</span>
+        </div>
+      )}
+    </div>
+  )
+}
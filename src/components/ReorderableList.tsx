@@ -0,0 +1,139 @@
+import { useState, type KeyboardEvent, type ReactNode } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import { GripVertical } from 'lucide-react'
+
+interface ReorderableListProps<T extends { id: string }> {
+  items: T[]
+  // Off for sorted views, where a manual order would not show
+  enabled: boolean
+  // Move an item so it ends up at `toIndex` in the list
+  onMove: (id: string, toIndex: number) => void
+  renderItem: (item: T, dragHandle?: ReactNode) => ReactNode
+}
+
+interface ReorderableItemProps {
+  id: string
+  index: number
+  count: number
+  enabled: boolean
+  // Where the dragged item would land relative to this one, if it is the drop target
+  dropIndicator?: 'before' | 'after'
+  onMove: (id: string, toIndex: number) => void
+  children: (dragHandle?: ReactNode) => ReactNode
+}
+
+function ReorderableItem({ id, index, count, enabled, dropIndicator, onMove, children }: ReorderableItemProps) {
+  const drag = useDraggable({ id, disabled: !enabled })
+  const drop = useDroppable({ id, disabled: !enabled })
+
+  // Alt+Arrow moves one step without picking the item up; Space still starts a keyboard drag
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    if (event.altKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+      event.preventDefault()
+      const toIndex = index + (event.key === 'ArrowUp' ? -1 : 1)
+      if (toIndex >= 0 && toIndex < count) onMove(id, toIndex)
+      return
+    }
+    drag.listeners?.onKeyDown?.(event)
+  }
+
+  const dragHandle = enabled ? (
+    <button
+      type="button"
+      {...drag.attributes}
+      {...drag.listeners}
+      onKeyDown={handleKeyDown}
+      className="mt-0.5 cursor-grab touch-none text-gray-300 hover:text-gray-500 active:cursor-grabbing"
+      aria-label="Reorder (Space to pick up, arrow keys to move, or Alt+Up/Down)"
+    >
+      <GripVertical className="w-5 h-5" />
+    </button>
+  ) : undefined
+
+  return (
+    <motion.div
+      layout={!drag.isDragging}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      transition={{ duration: 0.2 }}
+      className="relative"
+    >
+      {dropIndicator && (
+        <div className={`absolute inset-x-0 h-0.5 rounded bg-purple-500 ${dropIndicator === 'before' ? '-top-2' : '-bottom-2'}`} />
+      )}
+      <div
+        ref={node => {
+          drag.setNodeRef(node)
+          drop.setNodeRef(node)
+        }}
+        style={drag.transform ? { transform: `translate3d(${drag.transform.x}px, ${drag.transform.y}px, 0)` } : undefined}
+        className={drag.isDragging ? 'relative z-20 opacity-80 shadow-xl' : undefined}
+      >
+        {children(dragHandle)}
+      </div>
+    </motion.div>
+  )
+}
+
+// Animated list whose items can be dragged (pointer or keyboard) into a new order
+export function ReorderableList<T extends { id: string }>({ items, enabled, onMove, renderItem }: ReorderableListProps<T>) {
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [overId, setOverId] = useState<string | null>(null)
+  const sensors = useSensors(
+    // A few pixels of travel before a drag starts, so clicks inside cards still work
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const activeIndex = items.findIndex(item => item.id === activeId)
+  const reset = () => {
+    setActiveId(null)
+    setOverId(null)
+  }
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    reset()
+    if (!over || over.id === active.id) return
+    const toIndex = items.findIndex(item => item.id === over.id)
+    if (toIndex !== -1) onMove(String(active.id), toIndex)
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCenter}
+      onDragStart={({ active }) => setActiveId(String(active.id))}
+      onDragOver={({ over }) => setOverId(over ? String(over.id) : null)}
+      onDragEnd={handleDragEnd}
+      onDragCancel={reset}
+    >
+      <AnimatePresence>
+        {items.map((item, index) => (
+          <ReorderableItem
+            key={item.id}
+            id={item.id}
+            index={index}
+            count={items.length}
+            enabled={enabled}
+            dropIndicator={item.id === overId && item.id !== activeId ? (activeIndex < index ? 'after' : 'before') : undefined}
+            onMove={onMove}
+          >
+            {dragHandle => renderItem(item, dragHandle)}
+          </ReorderableItem>
+        ))}
+      </AnimatePresence>
+    </DndContext>
+  )
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { LogOut, Mail, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { MemberAvatar } from '@/components/MemberAvatar'
+import { isAccepted, normalizeEmail, roleNames } from '@/data/permissions'
+import type { Project, ProjectMember, ProjectRole } from '@/types/todo'
+
+// Roles that can be handed out; there is only ever one owner
+export type MemberRole = Exclude<ProjectRole, 'owner'>
+
+interface ShareProjectDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  project: Project
+  // Everyone on the project, invitations included
+  members: ProjectMember[]
+  userId: string
+  // The signed-in user's role; only owners can invite, change roles or remove people
+  role: ProjectRole
+  onInvite: (email: string, role: MemberRole) => void
+  onChangeRole: (memberId: string, role: MemberRole) => void
+  onRemove: (memberId: string) => void
+  onLeave: () => void
+}
+
+function RoleSelect({ value, onChange, disabled = false, label }: {
+  value: MemberRole
+  onChange: (role: MemberRole) => void
+  disabled?: boolean
+  label: string
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as MemberRole)} disabled={disabled}>
+      <SelectTrigger className="h-8 w-[110px]" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="editor">{roleNames.editor}</SelectItem>
+        <SelectItem value="viewer">{roleNames.viewer}</SelectItem>
+      </SelectContent>
+    </Select>
+  )
+}
+
+// Who a project is shared with, and for owners, inviting people by email and managing roles
+export function ShareProjectDialog({
+  open,
+  onOpenChange,
+  project,
+  members,
+  userId,
+  role,
+  onInvite,
+  onChangeRole,
+  onRemove,
+  onLeave
+}: ShareProjectDialogProps) {
+  const [email, setEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<MemberRole>('editor')
+  const isOwner = role === 'owner'
+  const address = normalizeEmail(email)
+  const valid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)
+  const alreadyInvited = members.some(member => normalizeEmail(member.email) === address)
+
+  const invite = () => {
+    if (!valid || alreadyInvited) return
+    onInvite(address, inviteRole)
+    setEmail('')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share “{project.name}”</DialogTitle>
+          <DialogDescription>
+            Editors can add, change and complete tasks in this project. Viewers can only see them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="space-y-1">
+            <div className="flex gap-2">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && invite()}
+                placeholder="Email address"
+                className="h-9"
+                aria-label="Email to invite"
+              />
+              <RoleSelect value={inviteRole} onChange={setInviteRole} label="Role for the invitation" />
+              <Button onClick={invite} disabled={!valid || alreadyInvited} size="sm" className="h-9">
+                <Mail className="w-4 h-4 mr-1" />
+                Invite
+              </Button>
+            </div>
+            {alreadyInvited && <p className="text-xs text-gray-500">Already on this project</p>}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {members.length === 0 && <p className="text-sm text-gray-500">Not shared with anyone yet.</p>}
+          {members.map(member => {
+            const isProjectOwner = member.role === 'owner'
+            const you = member.member_id === userId
+            return (
+              <div key={member.id} className="flex items-center gap-2">
+                <MemberAvatar email={member.email} className="h-8 w-8 text-xs" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">
+                    {member.email}
+                    {you && <span className="text-gray-500"> (you)</span>}
+                  </p>
+                  {!isAccepted(member) && <p className="text-xs text-gray-500">Invitation sent</p>}
+                </div>
+                {isProjectOwner ? (
+                  <span className="w-[110px] px-3 text-sm text-gray-600">{roleNames.owner}</span>
+                ) : (
+                  <RoleSelect
+                    value={member.role as MemberRole}
+                    onChange={(next) => onChangeRole(member.id, next)}
+                    disabled={!isOwner}
+                    label={`Role for ${member.email}`}
+                  />
+                )}
+                {isOwner && !isProjectOwner ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-gray-400 hover:text-red-600"
+                    onClick={() => onRemove(member.id)}
+                    aria-label={`Remove ${member.email}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                ) : (
+                  <span className="w-8" />
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {!isOwner && (
+          <div className="flex justify-end border-t pt-4">
+            <Button variant="outline" size="sm" onClick={onLeave}>
+              <LogOut className="w-4 h-4 mr-1" />
+              Leave project
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
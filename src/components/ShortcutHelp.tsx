@@ -0,0 +1,41 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { shortcuts } from '@/lib/keyboard'
+
+interface ShortcutHelpProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ShortcutHelp({ open, onOpenChange }: ShortcutHelpProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>Keyboard shortcuts</SheetTitle>
+          <SheetDescription>Single keys work whenever you are not typing in a field.</SheetDescription>
+        </SheetHeader>
+        <div className="mt-6 space-y-6">
+          {shortcuts.map(section => (
+            <div key={section.group}>
+              <h3 className="mb-2 text-sm font-medium text-muted-foreground">{section.group}</h3>
+              <dl className="space-y-2">
+                {section.items.map(shortcut => (
+                  <div key={shortcut.description} className="flex items-center justify-between text-sm">
+                    <dt>{shortcut.description}</dt>
+                    <dd className="flex gap-1">
+                      {shortcut.keys.map(key => (
+                        <kbd key={key} className="min-w-[1.5rem] rounded border bg-muted px-1.5 py-0.5 text-center font-mono text-xs">
+                          {key}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,67 @@
+import { ListFilter, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { useCategories } from '@/hooks/use-categories'
+import { describeCondition, type TodoFilter } from '@/lib/filters'
+import type { SmartList } from '@/types/todo'
+
+interface SmartListNavProps {
+  lists: SmartList[]
+  activeId?: string
+  // The filter in effect, from the active list or the URL
+  filter: TodoFilter | null
+  onSelect: (id: string | undefined) => void
+  onDelete: (list: SmartList) => void
+  onClearFilter: () => void
+}
+
+// Saved smart lists as a row of toggles, plus chips describing the filter in effect
+export function SmartListNav({ lists, activeId, filter, onSelect, onDelete, onClearFilter }: SmartListNavProps) {
+  const categories = useCategories()
+  const conditions = filter?.conditions ?? []
+  if (lists.length === 0 && conditions.length === 0) return null
+
+  return (
+    <div className="mt-4 space-y-3">
+      {lists.length > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          {lists.map(list => (
+            <div key={list.id} className="flex items-center">
+              <Button
+                variant={list.id === activeId ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => onSelect(list.id === activeId ? undefined : list.id)}
+                className="rounded-r-none"
+              >
+                <ListFilter className="w-4 h-4 mr-1" />
+                {list.name}
+              </Button>
+              <Button
+                variant={list.id === activeId ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => onDelete(list)}
+                className="rounded-l-none border-l-0 px-2"
+                aria-label={`Delete smart list ${list.name}`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      {conditions.length > 0 && (
+        <div className="flex items-center gap-2 flex-wrap text-sm text-gray-600">
+          {filter?.match === 'any' && conditions.length > 1 ? 'Any of:' : 'Showing:'}
+          {conditions.map((condition, index) => (
+            <Badge key={index} variant="secondary">{describeCondition(condition, categories)}</Badge>
+          ))}
+          {!activeId && (
+            <Button variant="ghost" size="sm" onClick={onClearFilter} className="h-6 px-2">
+              Clear
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { ListChecks, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import { getSubtaskProgress } from '@/lib/subtasks'
+import type { Subtask } from '@/types/todo'
+
+interface SubtaskListProps {
+  subtasks: Subtask[]
+  onAdd: (title: string) => void
+  onToggle: (id: string, completed: boolean) => void
+  onDelete: (id: string) => void
+  // Show the checklist without add, check or delete
+  readOnly?: boolean
+}
+
+export function SubtaskList({ subtasks, onAdd, onToggle, onDelete, readOnly = false }: SubtaskListProps) {
+  const [isAdding, setIsAdding] = useState(false)
+  const [newSubtask, setNewSubtask] = useState('')
+  const { done, total, percent } = getSubtaskProgress(subtasks)
+
+  const addSubtask = () => {
+    if (!newSubtask.trim()) return
+    onAdd(newSubtask.trim())
+    setNewSubtask('')
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      {total > 0 && (
+        <div className="flex items-center gap-3">
+          <Progress value={percent} className="h-1.5 flex-1" />
+          <span className="text-xs text-gray-500 tabular-nums">
+            {done}/{total}
+          </span>
+        </div>
+      )}
+
+      {subtasks.map(subtask => {
+        const isCompleted = Number(subtask.completed) > 0
+        return (
+          <div key={subtask.id} className="group flex items-center gap-2">
+            <Checkbox
+              checked={isCompleted}
+              onCheckedChange={(checked) => onToggle(subtask.id, checked as boolean)}
+              disabled={readOnly}
+            />
+            <span className={`flex-1 text-sm ${isCompleted ? 'line-through text-gray-400' : 'text-gray-700'}`}>
+              {subtask.title}
+            </span>
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(subtask.id)}
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        )
+      })}
+
+      {readOnly ? null : isAdding ? (
+        <div className="flex items-center gap-2">
+          <Input
+            autoFocus
+            placeholder="Add a subtask"
+            value={newSubtask}
+            onChange={(e) => setNewSubtask(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addSubtask()
+              if (e.key === 'Escape') setIsAdding(false)
+            }}
+            className="h-8 text-sm"
+          />
+          <Button size="sm" onClick={addSubtask} disabled={!newSubtask.trim()}>
+            Add
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setIsAdding(false)}>
+            Done
+          </Button>
+        </div>
+      ) : (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsAdding(true)}
+          className="h-7 px-2 text-xs text-gray-500"
+        >
+          {total > 0 ? <Plus className="w-3 h-3" /> : <ListChecks className="w-3 h-3" />}
+          {total > 0 ? 'Add subtask' : 'Add checklist'}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { formatDistanceToNow } from 'date-fns'
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react'
+import type { SyncStatus } from '@/sync/local-store'
+
+interface SyncIndicatorProps {
+  status: SyncStatus
+  onSync: () => void
+}
+
+export function SyncIndicator({ status, onSync }: SyncIndicatorProps) {
+  const pending = status.pending > 0 ? ` · ${status.pending} change${status.pending === 1 ? '' : 's'} pending` : ''
+
+  let icon = <Cloud className="w-4 h-4 text-green-600" />
+  let label = status.lastSyncedAt
+    ? `Synced ${formatDistanceToNow(new Date(status.lastSyncedAt), { addSuffix: true })}`
+    : 'Saved on this device'
+
+  if (!status.online) {
+    icon = <CloudOff className="w-4 h-4 text-gray-500" />
+    label = `Offline${pending}`
+  } else if (status.syncing) {
+    icon = <RefreshCw className="w-4 h-4 text-blue-600 animate-spin" />
+    label = `Syncing${pending}`
+  } else if (status.error) {
+    icon = <AlertTriangle className="w-4 h-4 text-amber-600" />
+    label = `${status.error}${pending}`
+  } else if (pending) {
+    label = `Waiting to sync${pending}`
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onSync}
+      disabled={!status.online || status.syncing}
+      className="inline-flex items-center gap-2 rounded-full bg-white/70 px-3 py-1 text-xs text-gray-600 hover:bg-white disabled:cursor-default"
+      title={status.online ? 'Sync now' : 'Changes are saved locally and will sync when you are back online'}
+    >
+      {icon}
+      {label}
+    </button>
+  )
+}
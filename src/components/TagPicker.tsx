@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { Check, Plus, Tag as TagIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
+import { normalizeTagName } from '@/lib/tags'
+
+interface TagPickerProps {
+  // Names of the tags on the todo
+  selected: string[]
+  // Every tag the user has, offered as completions
+  knownTags: string[]
+  onChange: (names: string[]) => void
+}
+
+// Add or remove a todo's tags, picking from existing ones or typing a new name
+export function TagPicker({ selected, knownTags, onChange }: TagPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [input, setInput] = useState('')
+  const typed = normalizeTagName(input)
+
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter(tag => tag !== name) : [...selected, name])
+    setInput('')
+  }
+
+  return (
+    <Popover open={open} onOpenChange={(next) => {
+      setOpen(next)
+      if (!next) setInput('')
+    }}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-1.5 text-xs text-gray-500" aria-label="Edit tags">
+          <TagIcon className="w-3 h-3 mr-0.5" />
+          <Plus className="w-3 h-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 p-0">
+        <Command>
+          <CommandInput value={input} onValueChange={setInput} placeholder="Add a tag…" />
+          <CommandList>
+            <CommandEmpty>Type to create a tag</CommandEmpty>
+            {knownTags.length > 0 && (
+              <CommandGroup>
+                {knownTags.map(name => (
+                  <CommandItem key={name} value={name} onSelect={() => toggle(name)}>
+                    <Check className={selected.includes(name) ? 'opacity-100' : 'opacity-0'} />
+                    #{name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {typed && !knownTags.includes(typed) && (
+              <CommandGroup forceMount>
+                <CommandItem value={`create ${typed}`} onSelect={() => toggle(typed)} forceMount>
+                  <Plus />
+                  Create #{typed}
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
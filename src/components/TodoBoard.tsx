@@ -0,0 +1,179 @@
+import { useState, type ReactNode } from 'react'
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  rectIntersection,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import { Pencil } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { HighlightedText } from '@/components/HighlightedText'
+import { useCategories } from '@/hooks/use-categories'
+import { getBoardColumns, getColumnId, type BoardColumn, type BoardGrouping } from '@/lib/board'
+import { priorities } from '@/lib/constants'
+import { dueStates, formatDueDate, getDueState } from '@/lib/due-date'
+import type { Todo } from '@/types/todo'
+
+interface TodoBoardProps {
+  todos: Todo[]
+  grouping: BoardGrouping
+  // Dropped into another column: set the grouped field to that column's id
+  onMove: (id: string, columnId: string) => void
+  onToggle: (id: string, completed: boolean) => void
+  onEdit: (id: string) => void
+  // Words matched by the current search
+  highlight?: Set<string>
+}
+
+interface BoardCardProps {
+  todo: Todo
+  grouping: BoardGrouping
+  highlight?: Set<string>
+  onToggle?: (id: string, completed: boolean) => void
+  onEdit?: (id: string) => void
+}
+
+// Compact card; the badge for the field the board is grouped by is left out
+function BoardCard({ todo, grouping, onToggle, onEdit, highlight }: BoardCardProps) {
+  const isCompleted = Number(todo.completed) > 0
+  const categories = useCategories()
+  const category = grouping !== 'category' && categories.find(cat => cat.id === todo.category)
+  const priority = grouping !== 'priority' && priorities.find(p => p.id === todo.priority)
+  const dueState = isCompleted ? null : getDueState(todo.due_date)
+
+  return (
+    <Card className={`${isCompleted ? 'opacity-60 bg-gray-50' : ''} ${dueState === 'overdue' ? 'border-red-300' : ''}`}>
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-start gap-2">
+          <Checkbox
+            checked={isCompleted}
+            onCheckedChange={(checked) => onToggle?.(todo.id, checked as boolean)}
+            onPointerDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="mt-0.5"
+          />
+          <p className={`flex-1 text-sm font-medium ${isCompleted ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+            <HighlightedText text={todo.title} words={highlight} />
+          </p>
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onEdit(todo.id)}
+              onPointerDown={(e) => e.stopPropagation()}
+              onKeyDown={(e) => e.stopPropagation()}
+              className="h-6 w-6 p-0 text-gray-500 hover:text-gray-900"
+            >
+              <Pencil className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-1 flex-wrap">
+          {category && (
+            <Badge className={category.color}>
+              <category.icon className="w-3 h-3 mr-1" />
+              {category.name}
+            </Badge>
+          )}
+          {priority && (
+            <Badge variant="outline" className={priority.color}>
+              {priority.name}
+            </Badge>
+          )}
+          {dueState && (
+            <Badge variant="outline" className={dueStates[dueState].color}>
+              {dueState === 'later' ? formatDueDate(todo.due_date) : dueStates[dueState].name}
+            </Badge>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function DraggableCard(props: BoardCardProps) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: props.todo.id })
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={`cursor-grab touch-none rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 ${isDragging ? 'opacity-30' : ''}`}
+      aria-label={`${props.todo.title}; press Space to move it to another column`}
+    >
+      <BoardCard {...props} />
+    </div>
+  )
+}
+
+function BoardColumnView({ column, todos, children }: { column: BoardColumn; todos: Todo[]; children: ReactNode }) {
+  const { setNodeRef, isOver } = useDroppable({ id: column.id })
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-col rounded-lg bg-white/60 p-3 min-h-[200px] transition-colors ${isOver ? 'bg-purple-50 ring-2 ring-purple-300' : ''}`}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <Badge className={column.color}>{column.name}</Badge>
+        <span className="text-xs text-gray-500">{todos.length}</span>
+      </div>
+      <div className="space-y-2 flex-1">{children}</div>
+    </div>
+  )
+}
+
+// Kanban view: one column per status, priority or category; drop a card to change that field
+export function TodoBoard({ todos, grouping, onMove, onToggle, onEdit, highlight }: TodoBoardProps) {
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const categories = useCategories()
+  // Archived categories only get a column while they still hold todos
+  const columns = getBoardColumns(grouping, categories.filter(cat => !cat.archived || todos.some(todo => todo.category === cat.id)))
+  const activeTodo = todos.find(todo => todo.id === activeId)
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setActiveId(null)
+    const todo = todos.find(t => t.id === active.id)
+    if (!todo || !over || getColumnId(todo, grouping) === over.id) return
+    onMove(todo.id, String(over.id))
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={rectIntersection}
+      onDragStart={({ active }) => setActiveId(String(active.id))}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveId(null)}
+    >
+      <div className="grid gap-4 overflow-x-auto pb-2" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(220px, 1fr))` }}>
+        {columns.map(column => {
+          const columnTodos = todos.filter(todo => getColumnId(todo, grouping) === column.id)
+          return (
+            <BoardColumnView key={column.id} column={column} todos={columnTodos}>
+              {columnTodos.map(todo => (
+                <DraggableCard key={todo.id} todo={todo} grouping={grouping} onToggle={onToggle} onEdit={onEdit} highlight={highlight} />
+              ))}
+            </BoardColumnView>
+          )
+        })}
+      </div>
+      <DragOverlay>
+        {activeTodo && <BoardCard todo={activeTodo} grouping={grouping} highlight={highlight} />}
+      </DragOverlay>
+    </DndContext>
+  )
+}
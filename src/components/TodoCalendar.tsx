@@ -0,0 +1,309 @@
+import { createContext, useContext, useMemo, useState } from 'react'
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  pointerWithin,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import type { DayProps, WeekProps } from 'react-day-picker'
+import { addMonths, addWeeks, endOfWeek, format, isSameDay, isSameWeek, startOfWeek } from 'date-fns'
+import { CalendarX2, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { priorities } from '@/lib/constants'
+import { moveDueDateToDay, parseDueDate, toDayKey } from '@/lib/due-date'
+import type { Todo } from '@/types/todo'
+
+type CalendarMode = 'month' | 'week'
+
+const UNDATED = 'undated'
+// Month cells stay compact; the rest is reachable through the day agenda
+const MONTH_CELL_LIMIT = 3
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+
+interface TodoCalendarProps {
+  todos: Todo[]
+  // New due date for a dropped todo; undefined when it was dropped on the undated tray
+  onReschedule: (id: string, dueDate: string | undefined) => void
+  onToggle: (id: string, completed: boolean) => void
+  onEdit: (id: string) => void
+}
+
+// Day picker slots are plain components, so the cells read the todos from context
+interface CalendarCellContext {
+  mode: CalendarMode
+  anchor: Date
+  todosByDay: Map<string, Todo[]>
+  onSelectDay: (day: Date) => void
+}
+
+const CellContext = createContext<CalendarCellContext | null>(null)
+
+const priorityDot: Record<Todo['priority'], string> = {
+  high: 'bg-red-500',
+  medium: 'bg-yellow-500',
+  low: 'bg-green-500'
+}
+
+function TodoChip({ todo, dragging = false }: { todo: Todo; dragging?: boolean }) {
+  const isCompleted = Number(todo.completed) > 0
+  const due = parseDueDate(todo.due_date)
+  const hasTime = due && (due.getHours() !== 0 || due.getMinutes() !== 0)
+  return (
+    <div className={`flex items-center gap-1 rounded bg-white px-1.5 py-0.5 text-left text-xs shadow-sm ${
+      isCompleted ? 'text-gray-400 line-through' : 'text-gray-800'
+    } ${dragging ? 'shadow-lg ring-2 ring-purple-400' : ''}`}>
+      <span className={`h-1.5 w-1.5 shrink-0 rounded-full ${priorityDot[todo.priority] ?? 'bg-gray-400'}`} />
+      {hasTime && <span className="shrink-0 text-gray-500">{format(due, 'h:mm')}</span>}
+      <span className="truncate">{todo.title}</span>
+    </div>
+  )
+}
+
+function DraggableChip({ todo }: { todo: Todo }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: todo.id })
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={`cursor-grab touch-none rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-400 ${isDragging ? 'opacity-30' : ''}`}
+      aria-label={`${todo.title}; press Space to move it to another day`}
+    >
+      <TodoChip todo={todo} />
+    </div>
+  )
+}
+
+// A day cell: the picker's day button (selects the day) plus that day's todos, as a drop target
+function CalendarDayCell({ day, modifiers, children, ...props }: DayProps) {
+  const context = useContext(CellContext)!
+  const key = toDayKey(day.date)
+  const { setNodeRef, isOver } = useDroppable({ id: key })
+  const todos = context.todosByDay.get(key) ?? []
+  const visible = context.mode === 'month' ? todos.slice(0, MONTH_CELL_LIMIT) : todos
+  const hidden = todos.length - visible.length
+
+  return (
+    <td {...props}>
+      <div
+        ref={setNodeRef}
+        className={`flex h-full flex-col gap-1 rounded-md p-1 transition-colors ${
+          context.mode === 'month' ? 'min-h-[6rem]' : 'min-h-[20rem]'
+        } ${modifiers.outside ? 'opacity-50' : ''} ${isOver ? 'bg-purple-100 ring-2 ring-purple-300' : ''}`}
+      >
+        {children}
+        {visible.map(todo => <DraggableChip key={todo.id} todo={todo} />)}
+        {hidden > 0 && (
+          <button
+            type="button"
+            onClick={() => context.onSelectDay(day.date)}
+            className="text-left text-xs text-purple-700 hover:underline"
+          >
+            +{hidden} more
+          </button>
+        )}
+      </div>
+    </td>
+  )
+}
+
+// Week mode renders the month grid but only keeps the row holding the anchor day
+function CalendarWeekRow({ week, ...props }: WeekProps) {
+  const context = useContext(CellContext)!
+  const hidden = context.mode === 'week' && !week.days.some(day => isSameWeek(day.date, context.anchor, WEEK_OPTIONS))
+  // A class rather than the hidden attribute, which the row's flex class would override
+  return <tr {...props} className={hidden ? 'hidden' : props.className} />
+}
+
+function UndatedTray({ todos }: { todos: Todo[] }) {
+  const { setNodeRef, isOver } = useDroppable({ id: UNDATED })
+  return (
+    <Card ref={setNodeRef} className={isOver ? 'ring-2 ring-purple-300' : undefined}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarX2 className="w-4 h-4" />
+          No due date
+          <span className="text-xs font-normal text-gray-500">{todos.length}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1 max-h-80 overflow-y-auto">
+        {todos.length === 0 ? (
+          <p className="text-xs text-gray-500">Drop a task here to clear its due date</p>
+        ) : (
+          todos.map(todo => <DraggableChip key={todo.id} todo={todo} />)
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function DayAgenda({ day, todos, onToggle, onEdit }: { day: Date; todos: Todo[] } & Pick<TodoCalendarProps, 'onToggle' | 'onEdit'>) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{format(day, 'EEEE, MMM d')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {todos.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing due</p>
+        ) : (
+          todos.map(todo => {
+            const isCompleted = Number(todo.completed) > 0
+            const due = parseDueDate(todo.due_date)!
+            const hasTime = due.getHours() !== 0 || due.getMinutes() !== 0
+            const priority = priorities.find(p => p.id === todo.priority)
+            return (
+              <div key={todo.id} className="flex items-start gap-2">
+                <Checkbox
+                  checked={isCompleted}
+                  onCheckedChange={(checked) => onToggle(todo.id, checked as boolean)}
+                  className="mt-0.5"
+                />
+                <div className="flex-1 min-w-0">
+                  <button
+                    type="button"
+                    onClick={() => onEdit(todo.id)}
+                    className={`text-left text-sm hover:underline ${isCompleted ? 'line-through text-gray-500' : 'text-gray-900'}`}
+                  >
+                    {todo.title}
+                  </button>
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    {hasTime ? format(due, 'h:mm a') : 'All day'}
+                    {priority && <Badge variant="outline" className={`${priority.color} px-1.5 py-0 text-[10px]`}>{priority.name}</Badge>}
+                  </div>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Month or week calendar of due todos, a day agenda and a tray of undated todos;
+// dragging a todo onto a day (or the tray) reschedules it
+export function TodoCalendar({ todos, onReschedule, onToggle, onEdit }: TodoCalendarProps) {
+  const [mode, setMode] = useState<CalendarMode>('month')
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [selectedDay, setSelectedDay] = useState(() => new Date())
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const todosByDay = useMemo(() => {
+    const byDay = new Map<string, Todo[]>()
+    for (const todo of todos) {
+      const due = parseDueDate(todo.due_date)
+      if (!due) continue
+      const key = toDayKey(due)
+      byDay.set(key, [...(byDay.get(key) ?? []), todo])
+    }
+    // Timed todos in time order; all-day ones (midnight) naturally come first
+    byDay.forEach(list => list.sort((a, b) => parseDueDate(a.due_date)!.getTime() - parseDueDate(b.due_date)!.getTime()))
+    return byDay
+  }, [todos])
+
+  const undated = todos.filter(todo => !parseDueDate(todo.due_date))
+  const activeTodo = todos.find(todo => todo.id === activeId)
+
+  const selectDay = (day: Date) => {
+    setSelectedDay(day)
+    setAnchor(day)
+  }
+  const step = (direction: 1 | -1) => setAnchor(mode === 'month' ? addMonths(anchor, direction) : addWeeks(anchor, direction))
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setActiveId(null)
+    const todo = todos.find(t => t.id === active.id)
+    if (!todo || !over) return
+    if (over.id === UNDATED) {
+      if (todo.due_date) onReschedule(todo.id, undefined)
+      return
+    }
+    const day = new Date(`${over.id}T00:00:00`)
+    const due = parseDueDate(todo.due_date)
+    if (!due || !isSameDay(due, day)) onReschedule(todo.id, moveDueDateToDay(todo.due_date, day))
+  }
+
+  const title = mode === 'month'
+    ? format(anchor, 'MMMM yyyy')
+    : `${format(startOfWeek(anchor, WEEK_OPTIONS), 'MMM d')} – ${format(endOfWeek(anchor, WEEK_OPTIONS), 'MMM d, yyyy')}`
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={pointerWithin}
+      onDragStart={({ active }) => setActiveId(String(active.id))}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveId(null)}
+    >
+      <div className="grid gap-4 lg:grid-cols-[1fr_280px]">
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => step(-1)} aria-label="Previous">
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => step(1)} aria-label="Next">
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                <h2 className="ml-1 font-semibold text-gray-900">{title}</h2>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => selectDay(new Date())}>Today</Button>
+                <Button variant={mode === 'month' ? 'default' : 'outline'} size="sm" onClick={() => setMode('month')}>Month</Button>
+                <Button variant={mode === 'week' ? 'default' : 'outline'} size="sm" onClick={() => setMode('week')}>Week</Button>
+              </div>
+            </div>
+            <CellContext.Provider value={{ mode, anchor, todosByDay, onSelectDay: selectDay }}>
+              <Calendar
+                mode="single"
+                required
+                selected={selectedDay}
+                onSelect={selectDay}
+                month={anchor}
+                onMonthChange={setAnchor}
+                weekStartsOn={WEEK_OPTIONS.weekStartsOn}
+                hideNavigation
+                className="w-full p-0"
+                classNames={{
+                  root: 'w-full',
+                  months: 'w-full',
+                  month: 'w-full',
+                  month_caption: 'hidden',
+                  weekdays: 'flex border-b',
+                  weekday: 'flex-1 py-1 text-xs font-normal text-muted-foreground',
+                  week: 'flex w-full border-b last:border-b-0',
+                  day: 'flex-1 min-w-0 p-0 align-top',
+                  day_button: 'h-7 w-7 min-w-0 aspect-auto self-start text-xs'
+                }}
+                components={{ Day: CalendarDayCell, Week: CalendarWeekRow }}
+              />
+            </CellContext.Provider>
+          </CardContent>
+        </Card>
+        <div className="space-y-4">
+          <DayAgenda day={selectedDay} todos={todosByDay.get(toDayKey(selectedDay)) ?? []} onToggle={onToggle} onEdit={onEdit} />
+          <UndatedTray todos={undated} />
+        </div>
+      </div>
+      <DragOverlay>
+        {activeTodo && <TodoChip todo={activeTodo} dragging />}
+      </DragOverlay>
+    </DndContext>
+  )
+}
@@ -0,0 +1,274 @@
+import type { ReactNode } from 'react'
+import { CalendarPlus, Hash, Pencil, Repeat, Sparkles, Square, SquareCheck, Star, Trash2, UserCheck, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { AssigneePicker } from '@/components/AssigneePicker'
+import { DueDatePicker } from '@/components/DueDatePicker'
+import { HighlightedText } from '@/components/HighlightedText'
+import { SubtaskList } from '@/components/SubtaskList'
+import { TagPicker } from '@/components/TagPicker'
+import { useCategory } from '@/hooks/use-categories'
+import { priorities } from '@/lib/constants'
+import { dueStates, formatDueDate, getDueState } from '@/lib/due-date'
+import { describeRecurrence, parseRecurrence } from '@/lib/recurrence'
+import type { ProjectMember, Subtask, Tag, Todo, TodoChanges } from '@/types/todo'
+
+interface TodoCardProps {
+  todo: Todo
+  subtasks: Subtask[]
+  onToggle: (id: string, completed: boolean) => void
+  onUpdate: (id: string, changes: TodoChanges) => void
+  // Open the todo in the edit dialog (routed, so it can be linked to)
+  onEdit: (id: string) => void
+  onDelete: (id: string) => void
+  onAddSubtask: (todoId: string, title: string) => void
+  onToggleSubtask: (id: string, completed: boolean) => void
+  onDeleteSubtask: (id: string) => void
+  // Multi-select; `range` is true for shift-clicks
+  selected?: boolean
+  onSelect?: (id: string, range: boolean) => void
+  // Grip rendered at the start of the card when the list can be reordered
+  dragHandle?: ReactNode
+  // Words matched by the current search, marked in the title, description and tags
+  highlight?: Set<string>
+  // Keyboard cursor (j/k) is on this card
+  focused?: boolean
+  tags: Tag[]
+  // Every tag name the user has, for the tag picker
+  knownTags: string[]
+  onTagsChange: (todoId: string, names: string[]) => void
+  // Filter the list down to one tag
+  onTagClick: (name: string) => void
+  // Members the todo can be assigned to; empty unless its project is shared
+  assignees?: ProjectMember[]
+  // The user can only view the todo's project: no checkbox, pickers or edit buttons
+  readOnly?: boolean
+}
+
+export function TodoCard({
+  todo,
+  subtasks,
+  onToggle,
+  onUpdate,
+  onEdit,
+  onDelete,
+  onAddSubtask,
+  onToggleSubtask,
+  onDeleteSubtask,
+  selected = false,
+  onSelect,
+  dragHandle,
+  highlight,
+  focused = false,
+  tags,
+  knownTags,
+  onTagsChange,
+  onTagClick,
+  assignees = [],
+  readOnly = false
+}: TodoCardProps) {
+  const isCompleted = Number(todo.completed) > 0
+  const category = useCategory(todo.category)
+  const priority = priorities.find(p => p.id === todo.priority)
+  const dueState = isCompleted ? null : getDueState(todo.due_date)
+  const recurrence = parseRecurrence(todo.recurrence)
+  const isManual = Number(todo.manual_override) > 0
+  const showAiConfidence = !isManual && todo.ai_confidence != null && Number(todo.ai_confidence) > 0
+
+  return (
+    <Card className={`transition-all duration-200 hover:shadow-md ${
+      isCompleted ? 'opacity-60 bg-gray-50' : ''
+    } ${dueState === 'overdue' ? 'border-red-300' : ''} ${selected ? 'ring-2 ring-purple-400' : ''} ${
+      focused ? 'outline outline-2 outline-offset-2 outline-indigo-500' : ''
+    }`}>
+      <CardContent className="p-6">
+        <div className="flex items-start gap-4">
+          {dragHandle}
+          {onSelect && (
+            <button
+              type="button"
+              onClick={(e) => onSelect(todo.id, e.shiftKey)}
+              // Keep shift-click from selecting the text in between
+              onMouseDown={(e) => e.shiftKey && e.preventDefault()}
+              className="mt-0.5 text-gray-400 hover:text-purple-600"
+              aria-pressed={selected}
+              title="Select (shift-click to select a range)"
+            >
+              {selected
+                ? <SquareCheck className="w-5 h-5 text-purple-600" />
+                : <Square className="w-5 h-5" />}
+            </button>
+          )}
+          <Checkbox
+            checked={isCompleted}
+            onCheckedChange={(checked) => onToggle(todo.id, checked as boolean)}
+            disabled={readOnly}
+            className="mt-1"
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 mb-2">
+              <h3
+                className={`font-medium cursor-text ${
+                  isCompleted ? 'line-through text-gray-500' : 'text-gray-900'
+                }`}
+                onDoubleClick={() => onEdit(todo.id)}
+              >
+                <HighlightedText text={todo.title} words={highlight} />
+              </h3>
+              {todo.priority === 'high' && (
+                <Star className="w-4 h-4 text-red-500 fill-red-500" />
+              )}
+            </div>
+
+            {todo.description && (
+              <p className={`text-sm mb-3 ${
+                isCompleted ? 'line-through text-gray-400' : 'text-gray-600'
+              }`}>
+                <HighlightedText text={todo.description} words={highlight} />
+              </p>
+            )}
+
+            <div className="flex items-center gap-2 flex-wrap">
+              {category && (
+                <Badge className={category.color}>
+                  <category.icon className="w-3 h-3 mr-1" />
+                  {category.name}
+                </Badge>
+              )}
+              {priority && (
+                <Badge variant="outline" className={priority.color}>
+                  {priority.name}
+                </Badge>
+              )}
+              {tags.map(tag => (
+                <Badge key={tag.id} variant="outline" className="bg-gray-50 text-gray-700 pr-1">
+                  <button type="button" onClick={() => onTagClick(tag.name)} className="inline-flex items-center" title={`Show #${tag.name}`}>
+                    <Hash className="w-3 h-3 mr-0.5" />
+                    <HighlightedText text={tag.name} words={highlight} />
+                  </button>
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      onClick={() => onTagsChange(todo.id, tags.filter(other => other.id !== tag.id).map(other => other.name))}
+                      className="ml-1 rounded-sm text-gray-400 hover:text-gray-700"
+                      aria-label={`Remove tag ${tag.name}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+              {!readOnly && (
+                <TagPicker
+                  selected={tags.map(tag => tag.name)}
+                  knownTags={knownTags}
+                  onChange={(names) => onTagsChange(todo.id, names)}
+                />
+              )}
+              {recurrence && (
+                <Badge variant="outline" className="bg-indigo-50 text-indigo-700">
+                  <Repeat className="w-3 h-3 mr-1" />
+                  {describeRecurrence(recurrence)}
+                </Badge>
+              )}
+              {isManual && (
+                <span title="Set manually; the AI will not reclassify this task">
+                  <UserCheck className="w-3.5 h-3.5 text-gray-400" />
+                </span>
+              )}
+              {showAiConfidence && (
+                <TooltipProvider delayDuration={200}>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span className="inline-flex items-center gap-1 text-xs text-purple-700">
+                        <Sparkles className="w-3 h-3" />
+                        {Math.round(Number(todo.ai_confidence) * 100)}%
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      {todo.ai_rationale || 'AI classification'}
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {dueState && dueState !== 'later' && (
+                <Badge variant="outline" className={dueStates[dueState].color}>
+                  {dueStates[dueState].name}
+                </Badge>
+              )}
+              {!todo.due_date && todo.ai_suggested_due_date && !isCompleted && !readOnly && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onUpdate(todo.id, {
+                    due_date: todo.ai_suggested_due_date,
+                    ai_suggested_due_date: undefined
+                  })}
+                  className="h-6 px-2 text-xs text-purple-700 hover:text-purple-800"
+                  title="Suggested by AI; click to set as due date"
+                >
+                  <CalendarPlus className="w-3 h-3" />
+                  Due {formatDueDate(todo.ai_suggested_due_date)}?
+                </Button>
+              )}
+              {readOnly ? (
+                todo.due_date && <span className="text-xs text-gray-600">Due {formatDueDate(todo.due_date)}</span>
+              ) : (
+                <DueDatePicker
+                  value={todo.due_date}
+                  onChange={(value) => onUpdate(todo.id, { due_date: value })}
+                  placeholder="No due date"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                />
+              )}
+              {assignees.length > 0 && (
+                <AssigneePicker
+                  value={todo.assignee_id}
+                  members={assignees}
+                  onChange={(assigneeId) => onUpdate(todo.id, { assignee_id: assigneeId })}
+                  disabled={readOnly}
+                />
+              )}
+              <span className="text-xs text-gray-500">
+                {new Date(todo.created_at).toLocaleDateString()}
+              </span>
+            </div>
+
+            <SubtaskList
+              subtasks={subtasks}
+              onAdd={(title) => onAddSubtask(todo.id, title)}
+              onToggle={onToggleSubtask}
+              onDelete={onDeleteSubtask}
+              readOnly={readOnly}
+            />
+          </div>
+
+          {!readOnly && (
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onEdit(todo.id)}
+                className="text-gray-600 hover:text-gray-900"
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(todo.id)}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
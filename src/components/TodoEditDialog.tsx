@@ -0,0 +1,262 @@
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import { History, ListChecks, MessageSquare, Pencil, Sparkles } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ActivityLog } from '@/components/ActivityLog'
+import { CommentList } from '@/components/CommentList'
+import { DueDatePicker } from '@/components/DueDatePicker'
+import { ProjectSelect } from '@/components/ProjectSelect'
+import { RecurrencePicker } from '@/components/RecurrencePicker'
+import { useCategories } from '@/hooks/use-categories'
+import { priorities } from '@/lib/constants'
+import { autoCompletesFromSubtasks } from '@/lib/subtasks'
+import type { Activity, Comment, Project, Todo, TodoChanges } from '@/types/todo'
+
+interface TodoEditDialogProps {
+  todo: Todo
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (changes: TodoChanges) => void
+  projects: Project[]
+  // This todo's comments and history
+  comments: Comment[]
+  activities: Activity[]
+  userId: string
+  onAddComment: (body: string, parentId?: string) => void
+  onDeleteComment: (id: string) => void
+}
+
+// The /todo/:id view: the edit form, the comment thread and the activity log, one tab each
+export function TodoEditDialog({
+  todo,
+  open,
+  onOpenChange,
+  onSave,
+  projects,
+  comments,
+  activities,
+  userId,
+  onAddComment,
+  onDeleteComment
+}: TodoEditDialogProps) {
+  const categories = useCategories()
+  const [title, setTitle] = useState(todo.title)
+  const [description, setDescription] = useState(todo.description)
+  const [category, setCategory] = useState(todo.category)
+  const [priority, setPriority] = useState(todo.priority)
+  const [dueDate, setDueDate] = useState(todo.due_date)
+  const [recurrence, setRecurrence] = useState(todo.recurrence)
+  const [projectId, setProjectId] = useState(todo.project_id)
+  const [aiManaged, setAiManaged] = useState(!(Number(todo.manual_override) > 0))
+  const [autoComplete, setAutoComplete] = useState(autoCompletesFromSubtasks(todo))
+
+  // Start from the latest todo when the dialog opens. While it stays open, changes made elsewhere
+  // (another tab, a collaborator) only come through for fields the user hasn't touched.
+  const synced = useRef<Todo | null>(null)
+  useEffect(() => {
+    if (!open) {
+      synced.current = null
+      return
+    }
+    const previous = synced.current?.id === todo.id ? synced.current : null
+    synced.current = todo
+    const follow = <T,>(setValue: Dispatch<SetStateAction<T>>, read: (source: Todo) => T) =>
+      setValue(current => !previous || current === read(previous) ? read(todo) : current)
+    follow(setTitle, source => source.title)
+    follow(setDescription, source => source.description)
+    follow(setCategory, source => source.category)
+    follow(setPriority, source => source.priority)
+    follow(setDueDate, source => source.due_date)
+    follow(setRecurrence, source => source.recurrence)
+    follow(setProjectId, source => source.project_id)
+    follow(setAiManaged, source => !(Number(source.manual_override) > 0))
+    follow(setAutoComplete, autoCompletesFromSubtasks)
+  }, [open, todo])
+
+  const handleSave = () => {
+    if (!title.trim()) return
+
+    const changes: TodoChanges = {}
+    if (title.trim() !== todo.title) changes.title = title.trim()
+    if (description !== todo.description) changes.description = description
+    if ((dueDate ?? null) !== (todo.due_date ?? null)) changes.due_date = dueDate
+    if ((recurrence ?? null) !== (todo.recurrence ?? null)) changes.recurrence = recurrence
+    if ((projectId ?? null) !== (todo.project_id ?? null)) changes.project_id = projectId
+    if (autoComplete !== autoCompletesFromSubtasks(todo)) changes.auto_complete_subtasks = autoComplete
+
+    // Picking a category or priority by hand pins both against future AI reclassification
+    const classificationChanged = category !== todo.category || priority !== todo.priority
+    if (classificationChanged) {
+      changes.category = category
+      changes.priority = priority
+    }
+    const manualOverride = classificationChanged || !aiManaged
+    if (manualOverride !== Number(todo.manual_override) > 0) {
+      changes.manual_override = manualOverride
+    }
+    // Handing classification back to the AI includes a priority typed at quick-add
+    if (changes.manual_override === false && Number(todo.manual_priority) > 0) changes.manual_priority = false
+
+    onSave(changes)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="pr-6 break-words">{todo.title}</DialogTitle>
+          <DialogDescription className="sr-only">Edit the task, discuss it and see its history</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="details">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="details">
+              <Pencil className="w-3.5 h-3.5 mr-1" />
+              Details
+            </TabsTrigger>
+            <TabsTrigger value="comments">
+              <MessageSquare className="w-3.5 h-3.5 mr-1" />
+              Comments{comments.length > 0 && ` (${comments.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="activity">
+              <History className="w-3.5 h-3.5 mr-1" />
+              Activity
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Changing the category or priority yourself stops the AI from reclassifying this task.
+            </p>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={`edit-title-${todo.id}`}>Title</Label>
+                <Input
+                  id={`edit-title-${todo.id}`}
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`edit-description-${todo.id}`}>Description</Label>
+                <Textarea
+                  id={`edit-description-${todo.id}`}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={category}
+                    onValueChange={(value) => {
+                      setCategory(value)
+                      setAiManaged(false)
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.filter(cat => !cat.archived || cat.id === todo.category).map(cat => (
+                        <SelectItem key={cat.id} value={cat.id}>
+                          {cat.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select
+                    value={priority}
+                    onValueChange={(value) => {
+                      setPriority(value as Todo['priority'])
+                      setAiManaged(false)
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {priorities.map(p => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <ProjectSelect projects={projects} value={projectId} onChange={setProjectId} className="w-full" />
+              </div>
+              <div className="space-y-2">
+                <Label>Due date</Label>
+                <DueDatePicker value={dueDate} onChange={setDueDate} className="w-full" />
+              </div>
+              <div className="space-y-2">
+                <Label>Repeat</Label>
+                <RecurrencePicker value={recurrence} onChange={setRecurrence} dueDate={dueDate} />
+              </div>
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div className="flex items-center gap-2">
+                  <Sparkles className="w-4 h-4 text-purple-600" />
+                  <Label htmlFor={`edit-ai-${todo.id}`} className="font-normal">
+                    Let AI classify when the text changes
+                  </Label>
+                </div>
+                <Switch
+                  id={`edit-ai-${todo.id}`}
+                  checked={aiManaged}
+                  onCheckedChange={setAiManaged}
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div className="flex items-center gap-2">
+                  <ListChecks className="w-4 h-4 text-gray-600" />
+                  <Label htmlFor={`edit-auto-complete-${todo.id}`} className="font-normal">
+                    Complete when all subtasks are done
+                  </Label>
+                </div>
+                <Switch
+                  id={`edit-auto-complete-${todo.id}`}
+                  checked={autoComplete}
+                  onCheckedChange={setAutoComplete}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={!title.trim()}>
+                Save changes
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+
+          <TabsContent value="comments">
+            <CommentList comments={comments} userId={userId} onAdd={onAddComment} onDelete={onDeleteComment} />
+          </TabsContent>
+
+          <TabsContent value="activity">
+            <ActivityLog activities={activities} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
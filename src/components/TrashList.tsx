@@ -0,0 +1,111 @@
+import { formatDistanceToNow } from 'date-fns'
+import { RotateCcw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
+import { useCategories } from '@/hooks/use-categories'
+import type { Todo } from '@/types/todo'
+
+interface TrashListProps {
+  todos: Todo[]
+  onRestore: (id: string) => void
+  onPurge: (ids: string[]) => void
+}
+
+// Soft-deleted todos, newest first, with restore and permanent delete
+export function TrashList({ todos, onRestore, onPurge }: TrashListProps) {
+  const categories = useCategories()
+  const sorted = [...todos].sort((a, b) => (b.deleted_at ?? '').localeCompare(a.deleted_at ?? ''))
+
+  if (sorted.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Trash2 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-600">Trash is empty</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {sorted.length} deleted task{sorted.length === 1 ? '' : 's'}
+        </p>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+              <Trash2 className="w-4 h-4 mr-1" />
+              Empty Trash
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Empty trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {sorted.length} task{sorted.length === 1 ? '' : 's'} and their subtasks will be deleted
+                permanently. This can't be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => onPurge(sorted.map(todo => todo.id))}>
+                Delete Forever
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {sorted.map(todo => {
+        const category = categories.find(cat => cat.id === todo.category)
+        return (
+          <Card key={todo.id} className="bg-gray-50">
+            <CardContent className="p-4 flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-700 truncate">{todo.title}</p>
+                <div className="flex items-center gap-2 mt-1">
+                  {category && (
+                    <Badge className={category.color}>
+                      <category.icon className="w-3 h-3 mr-1" />
+                      {category.name}
+                    </Badge>
+                  )}
+                  {todo.deleted_at && (
+                    <span className="text-xs text-gray-500">
+                      Deleted {formatDistanceToNow(new Date(todo.deleted_at), { addSuffix: true })}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => onRestore(todo.id)}>
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Restore
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onPurge([todo.id])}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                title="Delete forever"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import type { RepositoryTable, TodoRepository } from '@/data/repository'
+
+export interface AuthUser {
+  id: string
+  email: string
+}
+
+export interface AuthService {
+  // Called right away with the current user (or null) and again on every change
+  onAuthStateChanged: (callback: (user: AuthUser | null) => void) => () => void
+  login: () => void
+}
+
+export interface AiService {
+  generateText: (options: { prompt: string; maxTokens?: number }) => Promise<{ text: string }>
+}
+
+// One row change, announced on a live channel once it has reached the server. It names the row
+// but carries none of its contents: listeners read the row back through the repository, which
+// only hands it to people allowed to see it.
+export interface ChangeEvent {
+  table: RepositoryTable
+  type: 'create' | 'update' | 'delete'
+  id: string
+  // The store that made the change, so it can ignore its own echo
+  origin: string
+}
+
+export interface RealtimeService {
+  // Returns the unsubscribe function; listeners hear other clients' publishes and their own
+  subscribe: (channel: string, listener: (event: ChangeEvent) => void) => () => void
+  publish: (channel: string, event: ChangeEvent) => Promise<void>
+}
+
+export interface Backend {
+  name: BackendName
+  repository: TodoRepository
+  auth: AuthService
+  // Absent when the backend has no model to call; AI features then fall back to defaults
+  ai?: AiService
+  // Absent when the backend has no live channel; other clients' changes then arrive with the next pull
+  realtime?: RealtimeService
+}
+
+export type BackendName = 'blink' | 'local'
+
+// Pick with VITE_DATA_BACKEND=local to run without the Blink service (data stays in localStorage)
+export const backendName: BackendName = import.meta.env.VITE_DATA_BACKEND === 'local' ? 'local' : 'blink'
+
+let backend: Promise<Backend> | undefined
+
+// Loaded lazily so the local backend never constructs the Blink client (which redirects to login)
+export function loadBackend(): Promise<Backend> {
+  backend ??= backendName === 'local'
+    ? import('@/data/local-backend').then(module => module.createLocalBackend())
+    : import('@/data/blink-backend').then(module => module.createBlinkBackend())
+  return backend
+}
@@ -0,0 +1,136 @@
+import { blink } from '@/blink/client'
+import type { AuthService, Backend, ChangeEvent, RealtimeService } from '@/data/backend'
+import { createGuardedRepository } from '@/data/guarded-repository'
+import { runMigrations } from '@/data/migrations'
+import type { EntityRepository, TodoRepository } from '@/data/repository'
+
+// blink.db returns an array, or an object wrapping one, depending on the SDK version
+function ensureArray<T>(response: unknown): T[] {
+  if (Array.isArray(response)) return response as T[]
+  if (response && typeof response === 'object') {
+    for (const value of Object.values(response as Record<string, unknown>)) {
+      if (Array.isArray(value)) return value as T[]
+    }
+  }
+  return []
+}
+
+// Rows missing an id cannot be addressed and are dropped
+function validRows<T extends { id: string }>(response: unknown): T[] {
+  return ensureArray<T>(response).filter(row => typeof row?.id === 'string' && row.id.trim() !== '')
+}
+
+// Null out undefined values so cleared fields are actually cleared on the server
+function toRemote(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, value ?? null]))
+}
+
+// Values per `in` filter, to keep each request a reasonable size
+const IN_CHUNK = 100
+
+// Every call waits for the schema to be current so rows never hit a missing column
+function blinkTable<T extends { id: string }>(name: string, ready: () => Promise<void>): EntityRepository<T> {
+  const table = blink.db[name]
+  return {
+    list: async userId => {
+      await ready()
+      return validRows<T>(await table.list({ where: { user_id: userId } }))
+    },
+    // One `in` query per chunk of values rather than one per value
+    listWhere: async (field, values) => {
+      await ready()
+      const chunks: string[][] = []
+      for (let i = 0; i < values.length; i += IN_CHUNK) chunks.push(values.slice(i, i + IN_CHUNK))
+      const results: unknown[] = await Promise.all(chunks.map(chunk => table.list({ where: { [field]: { in: chunk } } })))
+      return results.flatMap(result => validRows<T>(result))
+    },
+    get: async id => {
+      await ready()
+      return validRows<T>(await table.list({ where: { id }, limit: 1 }))[0]
+    },
+    create: async row => {
+      await ready()
+      await table.create(toRemote(row))
+    },
+    update: async (id, changes) => {
+      await ready()
+      await table.update(id, toRemote(changes))
+    },
+    updateMany: async updates => {
+      await ready()
+      await table.updateMany(updates.map(toRemote))
+    },
+    remove: async id => {
+      await ready()
+      await table.delete(id)
+    }
+  }
+}
+
+export function createBlinkRepository(): TodoRepository {
+  // Migrations run once per session; a failure clears the memo so the next call retries
+  let ready: Promise<void> | undefined
+  const initialize = () => {
+    ready ??= runMigrations(query => blink.db.sql(query)).catch(error => {
+      ready = undefined
+      throw error
+    })
+    return ready
+  }
+
+  return {
+    initialize,
+    todos: blinkTable('todos', initialize),
+    subtasks: blinkTable('subtasks', initialize),
+    smart_lists: blinkTable('smart_lists', initialize),
+    tags: blinkTable('tags', initialize),
+    todo_tags: blinkTable('todo_tags', initialize),
+    categories: blinkTable('categories', initialize),
+    projects: blinkTable('projects', initialize),
+    project_members: blinkTable('project_members', initialize),
+    comments: blinkTable('comments', initialize),
+    activities: blinkTable('activities', initialize)
+  }
+}
+
+// Changes go out as 'change' messages on Blink's realtime channels
+function createBlinkRealtime(): RealtimeService {
+  return {
+    subscribe: (channel, listener) => {
+      // The SDK resolves the unsubscribe function once the channel is joined
+      let unsubscribe: (() => void) | undefined
+      let cancelled = false
+      Promise.resolve(blink.realtime.subscribe(channel, (message: { type: string; data: ChangeEvent }) => {
+        if (message.type === 'change') listener(message.data)
+      }))
+        .then((off: () => void) => {
+          if (cancelled) off()
+          else unsubscribe = off
+        })
+        .catch((error: unknown) => console.error(`Error subscribing to ${channel}:`, error))
+      return () => {
+        cancelled = true
+        unsubscribe?.()
+      }
+    },
+    publish: async (channel, event) => {
+      await blink.realtime.publish(channel, 'change', event)
+    }
+  }
+}
+
+export function createBlinkBackend(): Backend {
+  const auth: AuthService = {
+    onAuthStateChanged: callback => blink.auth.onAuthStateChanged(state => callback(state.user)),
+    login: () => blink.auth.login()
+  }
+  return {
+    name: 'blink',
+    repository: createGuardedRepository(createBlinkRepository(), auth),
+    auth,
+    ai: {
+      generateText: options => blink.ai.generateText(options)
+    },
+    realtime: createBlinkRealtime()
+  }
+}
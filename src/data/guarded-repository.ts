@@ -0,0 +1,118 @@
+import type { AuthService, AuthUser } from '@/data/backend'
+import { canRead, PermissionError, writeDenial, type AccessContext } from '@/data/permissions'
+import type { EntityRepository, RepositoryTable, TodoRepository } from '@/data/repository'
+
+// Wraps a repository so every read and write is checked against the signed-in user's roles,
+// using the backend's own rows (not a client's cache) to decide. Both backends hand out only
+// the wrapped repository; reads quietly leave out rows the user may not see, writes throw.
+
+type Row = Record<string, unknown>
+
+function ids(rows: Row[], field: string): string[] {
+  return Array.from(new Set(rows.map(row => row[field]).filter((value): value is string => typeof value === 'string' && value !== '')))
+}
+
+export function createGuardedRepository(repository: TodoRepository, auth: AuthService): TodoRepository {
+  let user: AuthUser | null = null
+  auth.onAuthStateChanged(next => {
+    user = next
+  })
+
+  const signedIn = (): AuthUser => {
+    if (!user) throw new PermissionError('Sign in to continue')
+    return user
+  }
+
+  const lookup = async <T extends { id: string }>(table: EntityRepository<T>, field: string, values: string[]) =>
+    values.length === 0 ? [] : table.listWhere(field, values)
+
+  // The todos, projects and memberships that decide who may touch `rows`
+  const accessContext = async (table: RepositoryTable, rows: Row[]): Promise<AccessContext> => {
+    const { id: userId, email } = signedIn()
+    const todoTags = table === 'tags' ? await lookup(repository.todo_tags, 'tag_id', ids(rows, 'id')) : []
+    const todos = await lookup(repository.todos, 'id', [...ids(rows, 'todo_id'), ...ids(todoTags as unknown as Row[], 'todo_id')])
+    const projectIds = [
+      ...(table === 'projects' ? ids(rows, 'id') : []),
+      ...ids(rows, 'project_id'),
+      ...ids(todos as unknown as Row[], 'project_id')
+    ]
+    const [projects, members] = await Promise.all([
+      lookup(repository.projects, 'id', projectIds),
+      lookup(repository.project_members, 'project_id', projectIds)
+    ])
+    return { userId, email, projects, members, todos, todoTags }
+  }
+
+  // The user's own rows need no lookups; only other people's are checked
+  const visible = async (table: RepositoryTable, rows: Row[]) => {
+    const userId = signedIn().id
+    const others = rows.filter(row => row.user_id !== userId)
+    if (others.length === 0) return rows
+    const context = await accessContext(table, others)
+    return rows.filter(row => canRead(table, row, context))
+  }
+
+  // Each write as (row before, row after); throws on the first one the user may not make
+  const authorize = async (table: RepositoryTable, writes: [Row | undefined, Row | undefined][]) => {
+    const context = await accessContext(table, writes.flat().filter((row): row is Row => row !== undefined))
+    for (const [before, after] of writes) {
+      const reason = writeDenial(table, before, after, context)
+      if (reason) throw new PermissionError(reason)
+    }
+  }
+
+  const guard = <T extends { id: string }>(table: RepositoryTable): EntityRepository<T> => {
+    const inner = repository[table] as unknown as EntityRepository<T>
+    const asRows = (rows: T[]) => rows as unknown as Row[]
+    const fromRows = (rows: Row[]) => rows as unknown as T[]
+
+    return {
+      list: async userId => {
+        if (userId !== signedIn().id) throw new PermissionError('You can only list your own data')
+        return inner.list(userId)
+      },
+      listWhere: async (field, values) => fromRows(await visible(table, asRows(await inner.listWhere(field, values)))),
+      get: async id => {
+        const row = await inner.get(id)
+        return row && fromRows(await visible(table, asRows([row])))[0]
+      },
+      create: async row => {
+        await authorize(table, [[undefined, row as unknown as Row]])
+        await inner.create(row)
+      },
+      // Missing rows are passed through so the backend reports them the way it always has
+      update: async (id, changes) => {
+        const before = await inner.get(id)
+        if (before) await authorize(table, [[before as unknown as Row, { ...before, ...changes }]])
+        await inner.update(id, changes)
+      },
+      updateMany: async updates => {
+        const current = new Map((await lookup(inner, 'id', updates.map(({ id }) => id))).map(row => [row.id, row]))
+        await authorize(table, updates.flatMap(({ id, ...changes }): [Row, Row][] => {
+          const before = current.get(id) as unknown as Row | undefined
+          return before ? [[before, { ...before, ...changes }]] : []
+        }))
+        await inner.updateMany(updates)
+      },
+      remove: async id => {
+        const before = await inner.get(id)
+        if (before) await authorize(table, [[before as unknown as Row, undefined]])
+        await inner.remove(id)
+      }
+    }
+  }
+
+  return {
+    initialize: () => repository.initialize(),
+    todos: guard('todos'),
+    subtasks: guard('subtasks'),
+    smart_lists: guard('smart_lists'),
+    tags: guard('tags'),
+    todo_tags: guard('todo_tags'),
+    categories: guard('categories'),
+    projects: guard('projects'),
+    project_members: guard('project_members'),
+    comments: guard('comments'),
+    activities: guard('activities')
+  }
+}
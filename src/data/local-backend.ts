@@ -0,0 +1,139 @@
+import type { AuthService, AuthUser, Backend, ChangeEvent, RealtimeService } from '@/data/backend'
+import { createGuardedRepository } from '@/data/guarded-repository'
+import type { EntityRepository, RepositoryTable, TodoRepository } from '@/data/repository'
+import { legacyTagRows } from '@/lib/tags'
+import type { Todo } from '@/types/todo'
+
+const LOCAL_USER: AuthUser = { id: 'local-user', email: 'local@localhost' }
+
+type Rows = Map<string, Record<string, unknown>>
+
+function storedRows(storage: Storage | undefined, key: string): Record<string, unknown>[] {
+  if (!storage) return []
+  try {
+    return JSON.parse(storage.getItem(key) ?? '[]') as Record<string, unknown>[]
+  } catch (error) {
+    console.error(`Ignoring unreadable ${key}:`, error)
+    return []
+  }
+}
+
+// Rows live in memory; with a Storage (localStorage) they are also written through as JSON
+// under `${namespace}:${table}` so they survive reloads
+function localTable<T extends { id: string }>(
+  table: RepositoryTable,
+  storage: Storage | undefined,
+  namespace: string
+): EntityRepository<T> {
+  const key = `${namespace}:${table}`
+  const rows: Rows = new Map(storedRows(storage, key).map(row => [String(row.id), row]))
+  const persist = () => storage?.setItem(key, JSON.stringify(Array.from(rows.values())))
+  const apply = (id: string, changes: Record<string, unknown>) => {
+    const row = rows.get(id)
+    if (!row) throw new Error(`${table} ${id} not found`)
+    const next = { ...row }
+    for (const [field, value] of Object.entries(changes)) {
+      if (value === undefined) delete next[field]
+      else next[field] = value
+    }
+    rows.set(id, next)
+  }
+
+  return {
+    list: async userId =>
+      Array.from(rows.values()).filter(row => row.user_id === userId).map(row => ({ ...row }) as T),
+    listWhere: async (field, values) =>
+      Array.from(rows.values()).filter(row => values.includes(String(row[field]))).map(row => ({ ...row }) as T),
+    get: async id => {
+      const row = rows.get(id)
+      return row ? ({ ...row } as T) : undefined
+    },
+    create: async row => {
+      if (rows.has(row.id)) throw new Error(`${table} ${row.id} already exists`)
+      rows.set(row.id, { ...row })
+      persist()
+    },
+    update: async (id, changes) => {
+      apply(id, changes)
+      persist()
+    },
+    updateMany: async updates => {
+      // All or nothing, like a single request would be
+      const missing = updates.find(({ id }) => !rows.has(id))
+      if (missing) throw new Error(`${table} ${missing.id} not found`)
+      updates.forEach(({ id, ...changes }) => apply(id, changes))
+      persist()
+    },
+    remove: async id => {
+      rows.delete(id)
+      persist()
+    }
+  }
+}
+
+// Repository without a server. Pass no storage for a throwaway in-memory copy (tests),
+// or localStorage to keep data in the browser.
+export function createLocalRepository(storage?: Storage, namespace = 'smart-todo'): TodoRepository {
+  const repository: TodoRepository = {
+    // The local counterpart of the SQL migrations: move legacy tag columns into the tags tables
+    initialize: async () => {
+      const rows = storedRows(storage, `${namespace}:todos`) as unknown as Todo[]
+      const { tags, links } = legacyTagRows(rows.filter(todo => todo.tags))
+      for (const tag of tags) {
+        if (!(await repository.tags.get(tag.id))) await repository.tags.create(tag)
+      }
+      for (const link of links) {
+        if (!(await repository.todo_tags.get(link.id))) await repository.todo_tags.create(link)
+      }
+      for (const todo of rows.filter(todo => todo.tags)) {
+        await repository.todos.update(todo.id, { tags: undefined })
+      }
+    },
+    todos: localTable('todos', storage, namespace),
+    subtasks: localTable('subtasks', storage, namespace),
+    smart_lists: localTable('smart_lists', storage, namespace),
+    tags: localTable('tags', storage, namespace),
+    todo_tags: localTable('todo_tags', storage, namespace),
+    categories: localTable('categories', storage, namespace),
+    projects: localTable('projects', storage, namespace),
+    project_members: localTable('project_members', storage, namespace),
+    comments: localTable('comments', storage, namespace),
+    activities: localTable('activities', storage, namespace)
+  }
+  return repository
+}
+
+// Stand-in for a realtime service: every subscriber in this page hears every publish on its
+// channel, delivered asynchronously and as a copy, the way a network message would arrive
+export function createLocalRealtime(): RealtimeService {
+  const channels = new Map<string, Set<(event: ChangeEvent) => void>>()
+  return {
+    subscribe: (channel, listener) => {
+      const listeners = channels.get(channel) ?? new Set()
+      listeners.add(listener)
+      channels.set(channel, listeners)
+      return () => listeners.delete(listener)
+    },
+    publish: async (channel, event) => {
+      const message = JSON.stringify(event)
+      setTimeout(() => channels.get(channel)?.forEach(listener => listener(JSON.parse(message) as ChangeEvent)), 0)
+    }
+  }
+}
+
+export function createLocalBackend(storage: Storage | undefined = window.localStorage): Backend {
+  // Always signed in as the same local user
+  const auth: AuthService = {
+    onAuthStateChanged: callback => {
+      callback(LOCAL_USER)
+      return () => {}
+    },
+    login: () => {}
+  }
+  return {
+    name: 'local',
+    repository: createGuardedRepository(createLocalRepository(storage), auth),
+    realtime: createLocalRealtime(),
+    auth
+  }
+}
@@ -0,0 +1,356 @@
+// Versioned schema migrations for SQL backends. Applied versions are recorded in
+// schema_migrations; on login every pending migration runs in order. The SQL endpoint has no
+// transactions, so each step is written to be safe to re-run after a partial failure.
+
+import { spreadPositions } from '@/lib/position'
+import { legacyTagRows } from '@/lib/tags'
+import type { Todo } from '@/types/todo'
+
+export type SqlExecutor = (query: string) => Promise<unknown>
+
+export interface Migration {
+  version: number
+  name: string
+  up: (db: MigrationContext) => Promise<void>
+}
+
+export interface MigrationContext {
+  sql: SqlExecutor
+  // ADD COLUMN unless the column is already there (older builds created some columns up front)
+  addColumn: (table: string, column: string, definition: string) => Promise<void>
+}
+
+export class MigrationError extends Error {
+  readonly version: number
+  readonly migration: string
+
+  constructor(migration: Migration, cause: unknown) {
+    super(`Migration ${migration.version} (${migration.name}) failed: ${cause instanceof Error ? cause.message : String(cause)}`)
+    this.name = 'MigrationError'
+    this.version = migration.version
+    this.migration = migration.name
+  }
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_todos',
+    up: async ({ sql }) => {
+      await sql(`
+        CREATE TABLE IF NOT EXISTS todos (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          description TEXT DEFAULT '',
+          category TEXT DEFAULT 'other',
+          priority TEXT DEFAULT 'medium',
+          completed BOOLEAN DEFAULT FALSE,
+          created_at TEXT NOT NULL,
+          due_date TEXT,
+          user_id TEXT NOT NULL
+        )
+      `)
+    }
+  },
+  {
+    version: 2,
+    name: 'add_todos_manual_override',
+    up: async ({ addColumn }) => {
+      await addColumn('todos', 'manual_override', 'BOOLEAN DEFAULT FALSE')
+    }
+  },
+  {
+    version: 3,
+    name: 'create_subtasks',
+    up: async ({ sql, addColumn }) => {
+      await addColumn('todos', 'auto_complete_subtasks', 'BOOLEAN DEFAULT TRUE')
+      await sql(`
+        CREATE TABLE IF NOT EXISTS subtasks (
+          id TEXT PRIMARY KEY,
+          todo_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          completed BOOLEAN DEFAULT FALSE,
+          position INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL,
+          user_id TEXT NOT NULL
+        )
+      `)
+    }
+  },
+  {
+    version: 4,
+    name: 'add_todos_recurrence',
+    up: async ({ addColumn }) => {
+      await addColumn('todos', 'recurrence', 'TEXT')
+    }
+  },
+  {
+    version: 5,
+    name: 'add_todos_tags',
+    up: async ({ addColumn }) => {
+      await addColumn('todos', 'tags', "TEXT DEFAULT ''")
+    }
+  },
+  {
+    version: 6,
+    name: 'add_todos_ai_classification',
+    up: async ({ addColumn }) => {
+      await addColumn('todos', 'ai_confidence', 'REAL')
+      await addColumn('todos', 'ai_rationale', 'TEXT')
+      await addColumn('todos', 'ai_suggested_due_date', 'TEXT')
+    }
+  },
+  {
+    version: 7,
+    name: 'add_updated_at',
+    up: async ({ sql, addColumn }) => {
+      await addColumn('todos', 'updated_at', 'TEXT')
+      await addColumn('subtasks', 'updated_at', 'TEXT')
+      // Rows written before sync existed count as last touched when they were created
+      await sql(`UPDATE todos SET updated_at = created_at WHERE updated_at IS NULL`)
+      await sql(`UPDATE subtasks SET updated_at = created_at WHERE updated_at IS NULL`)
+    }
+  },
+  {
+    version: 8,
+    name: 'add_todos_deleted_at',
+    up: async ({ addColumn }) => {
+      await addColumn('todos', 'deleted_at', 'TEXT')
+    }
+  },
+  {
+    version: 9,
+    name: 'add_todos_position',
+    up: async ({ sql, addColumn }) => {
+      await addColumn('todos', 'position', 'TEXT')
+      // Start the manual order off as the newest-first order everyone is used to
+      const rows = resultRows(await sql('SELECT id, user_id FROM todos WHERE position IS NULL ORDER BY user_id, created_at DESC'))
+      const byUser = new Map<string, string[]>()
+      for (const row of rows) {
+        const ids = byUser.get(String(row.user_id)) ?? []
+        ids.push(String(row.id))
+        byUser.set(String(row.user_id), ids)
+      }
+      for (const ids of byUser.values()) {
+        const positions = spreadPositions(ids.length)
+        for (const [index, id] of ids.entries()) {
+          await sql(`UPDATE todos SET position = ${quote(positions[index])} WHERE id = ${quote(id)}`)
+        }
+      }
+    }
+  },
+  {
+    version: 10,
+    name: 'add_todos_in_progress',
+    up: async ({ addColumn }) => {
+      await addColumn('todos', 'in_progress', 'BOOLEAN DEFAULT FALSE')
+    }
+  },
+  {
+    version: 11,
+    name: 'create_smart_lists',
+    up: async ({ sql }) => {
+      await sql(`
+        CREATE TABLE IF NOT EXISTS smart_lists (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          filter TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          user_id TEXT NOT NULL
+        )
+      `)
+    }
+  },
+  {
+    version: 12,
+    name: 'create_tags',
+    up: async ({ sql }) => {
+      await sql(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          user_id TEXT NOT NULL
+        )
+      `)
+      await sql(`
+        CREATE TABLE IF NOT EXISTS todo_tags (
+          id TEXT PRIMARY KEY,
+          todo_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          user_id TEXT NOT NULL
+        )
+      `)
+      // Move the comma-separated todos.tags column into rows. The ids are derived from the
+      // values, so a re-run after a partial failure inserts nothing twice.
+      const rows = resultRows(await sql(`SELECT id, tags, created_at, user_id FROM todos WHERE tags IS NOT NULL AND tags <> ''`))
+      const { tags, links } = legacyTagRows(rows as unknown as Todo[])
+      for (const tag of tags) {
+        await sql(`INSERT OR IGNORE INTO tags (id, name, created_at, updated_at, user_id) VALUES (${quote(tag.id)}, ${quote(tag.name)}, ${quote(tag.created_at)}, ${quote(tag.created_at)}, ${quote(tag.user_id)})`)
+      }
+      for (const link of links) {
+        await sql(`INSERT OR IGNORE INTO todo_tags (id, todo_id, tag_id, created_at, updated_at, user_id) VALUES (${quote(link.id)}, ${quote(link.todo_id)}, ${quote(link.tag_id)}, ${quote(link.created_at)}, ${quote(link.created_at)}, ${quote(link.user_id)})`)
+      }
+      await sql(`UPDATE todos SET tags = '' WHERE tags IS NOT NULL AND tags <> ''`)
+    }
+  },
+  {
+    version: 13,
+    name: 'create_categories',
+    up: async ({ sql }) => {
+      // No backfill: users without rows see the built-in categories until they first edit one
+      await sql(`
+        CREATE TABLE IF NOT EXISTS categories (
+          id TEXT PRIMARY KEY,
+          slug TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          icon TEXT NOT NULL,
+          color TEXT NOT NULL,
+          position INTEGER DEFAULT 0,
+          archived BOOLEAN DEFAULT FALSE,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          user_id TEXT NOT NULL
+        )
+      `)
+    }
+  },
+  {
+    version: 14,
+    name: 'create_projects',
+    up: async ({ sql, addColumn }) => {
+      await sql(`
+        CREATE TABLE IF NOT EXISTS projects (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          kind TEXT DEFAULT 'project',
+          parent_id TEXT,
+          position INTEGER DEFAULT 0,
+          archived_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          user_id TEXT NOT NULL
+        )
+      `)
+      await addColumn('todos', 'project_id', 'TEXT')
+    }
+  },
+  {
+    version: 15,
+    name: 'create_project_members',
+    up: async ({ sql, addColumn }) => {
+      await sql(`
+        CREATE TABLE IF NOT EXISTS project_members (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          email TEXT NOT NULL,
+          role TEXT DEFAULT 'viewer',
+          member_id TEXT,
+          accepted_at TEXT,
+          project_name TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          user_id TEXT NOT NULL
+        )
+      `)
+      await addColumn('todos', 'assignee_id', 'TEXT')
+    }
+  },
+  {
+    version: 16,
+    name: 'create_comments_and_activities',
+    up: async ({ sql }) => {
+      await sql(`
+        CREATE TABLE IF NOT EXISTS comments (
+          id TEXT PRIMARY KEY,
+          todo_id TEXT NOT NULL,
+          parent_id TEXT,
+          body TEXT NOT NULL,
+          author_email TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          user_id TEXT NOT NULL
+        )
+      `)
+      await sql(`
+        CREATE TABLE IF NOT EXISTS activities (
+          id TEXT PRIMARY KEY,
+          todo_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          from_value TEXT,
+          to_value TEXT,
+          by_ai BOOLEAN DEFAULT FALSE,
+          author_email TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          user_id TEXT NOT NULL
+        )
+      `)
+    }
+  },
+  {
+    version: 17,
+    name: 'add_todos_manual_priority',
+    up: async ({ addColumn }) => {
+      await addColumn('todos', 'manual_priority', 'BOOLEAN DEFAULT FALSE')
+    }
+  }
+]
+
+// SQL string literal
+function quote(value: string) {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+// The SQL endpoint returns rows either bare or wrapped in an object
+function resultRows(result: unknown): Record<string, unknown>[] {
+  if (Array.isArray(result)) return result
+  if (result && typeof result === 'object') {
+    for (const value of Object.values(result as Record<string, unknown>)) {
+      if (Array.isArray(value)) return value
+    }
+  }
+  return []
+}
+
+export async function runMigrations(sql: SqlExecutor, list: Migration[] = migrations): Promise<void> {
+  await sql(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `)
+  const applied = new Set(resultRows(await sql('SELECT version FROM schema_migrations')).map(row => Number(row.version)))
+
+  const context: MigrationContext = {
+    sql,
+    addColumn: async (table, column, definition) => {
+      const columns = resultRows(await sql(`PRAGMA table_info(${table})`)).map(row => row.name)
+      if (!columns.includes(column)) {
+        await sql(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+      }
+    }
+  }
+
+  const pending = [...list].sort((a, b) => a.version - b.version).filter(migration => !applied.has(migration.version))
+  for (const migration of pending) {
+    try {
+      await migration.up(context)
+      await sql(`
+        INSERT OR IGNORE INTO schema_migrations (version, name, applied_at)
+        VALUES (${migration.version}, '${migration.name}', '${new Date().toISOString()}')
+      `)
+    } catch (error) {
+      // Losing the connection is not a broken migration; it will be retried on the next sync
+      if (!navigator.onLine) throw error
+      // Later migrations may depend on this one, so stop here
+      throw new MigrationError(migration, error)
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { canRead, projectRole, writeDenial, type AccessContext } from '@/data/permissions'
+import type { Project, ProjectMember, Todo } from '@/types/todo'
+
+const owner = 'u-owner'
+const project = (id: string): Project => ({ id, name: id, kind: 'project', position: 0, created_at: '', user_id: owner }) as Project
+const member = (id: string, role: ProjectMember['role'], fields: Partial<ProjectMember> = {}): ProjectMember =>
+  ({ id, project_id: 'pA', email: `${id}@x.com`, role, project_name: 'pA', created_at: '', user_id: owner, ...fields }) as ProjectMember
+const todo = (id: string, project_id?: string): Todo =>
+  ({ id, title: id, description: '', category: 'work', priority: 'low', completed: false, created_at: '', user_id: owner, project_id }) as Todo
+
+const context = (userId: string, email: string, members: ProjectMember[]): AccessContext => ({
+  userId,
+  email,
+  projects: [project('pA'), project('pB')],
+  members,
+  todos: [todo('tA', 'pA'), todo('tB', 'pB')]
+})
+
+const accepted = { member_id: 'u-bob', accepted_at: '2026-10-19T10:00:00.000Z' }
+
+describe('projectRole', () => {
+  it('gives the owner the project and members their accepted role', () => {
+    expect(projectRole('pA', context(owner, 'owner@x.com', []))).toBe('owner')
+    expect(projectRole('pA', context('u-bob', 'bob@x.com', [member('bob', 'viewer', accepted)]))).toBe('viewer')
+    expect(projectRole('pA', context('u-bob', 'bob@x.com', [member('bob', 'viewer')]))).toBeUndefined()
+  })
+
+  it('never reads a member row as the owner', () => {
+    expect(projectRole('pA', context('u-bob', 'bob@x.com', [member('bob', 'owner', accepted)]))).toBe('editor')
+  })
+})
+
+describe('writeDenial', () => {
+  it('lets editors change todos in the project and nowhere else', () => {
+    const bob = context('u-bob', 'bob@x.com', [member('bob', 'editor', accepted)])
+    const tA = todo('tA', 'pA') as unknown as Record<string, unknown>
+    expect(writeDenial('todos', tA, { ...tA, title: 'new' }, bob)).toBeUndefined()
+    expect(writeDenial('todos', tA, { ...tA, project_id: 'pB' }, bob)).toBeDefined()
+  })
+
+  it('keeps viewers read-only', () => {
+    const bob = context('u-bob', 'bob@x.com', [member('bob', 'viewer', accepted)])
+    const tA = todo('tA', 'pA') as unknown as Record<string, unknown>
+    expect(writeDenial('todos', tA, { ...tA, title: 'new' }, bob)).toBe('You can only view this project')
+    expect(writeDenial('subtasks', undefined, { id: 's', todo_id: 'tA', user_id: 'u-bob' }, bob)).toBeDefined()
+  })
+
+  it('lets an invitee accept and nothing more', () => {
+    const invitation = member('bob', 'viewer')
+    const bob = context('u-bob', 'bob@x.com', [invitation])
+    const before = invitation as unknown as Record<string, unknown>
+    expect(writeDenial('project_members', before, { ...before, ...accepted }, bob)).toBeUndefined()
+    expect(writeDenial('project_members', before, { ...before, ...accepted, project_id: 'pB' }, bob)).toBeDefined()
+    expect(writeDenial('project_members', before, { ...before, ...accepted, role: 'editor' }, bob)).toBeDefined()
+    expect(writeDenial('project_members', before, undefined, bob)).toBeUndefined()
+  })
+
+  it('keeps strangers out of someone else’s members and projects', () => {
+    const eve = context('u-eve', 'eve@x.com', [])
+    expect(writeDenial('project_members', undefined, { id: 'm', project_id: 'pA', email: 'eve@x.com', role: 'editor', user_id: 'u-eve' }, eve)).toBeDefined()
+    expect(writeDenial('projects', project('pA') as unknown as Record<string, unknown>, undefined, eve)).toBeDefined()
+  })
+})
+
+describe('canRead', () => {
+  it('shows members their project and its todos, and invitees only the invitation', () => {
+    const bob = context('u-bob', 'bob@x.com', [member('bob', 'viewer', accepted)])
+    expect(canRead('projects', { id: 'pA', user_id: owner }, bob)).toBe(true)
+    expect(canRead('projects', { id: 'pB', user_id: owner }, bob)).toBe(false)
+    expect(canRead('comments', { id: 'c', todo_id: 'tA', user_id: owner }, bob)).toBe(true)
+    expect(canRead('comments', { id: 'c', todo_id: 'tB', user_id: owner }, bob)).toBe(false)
+
+    const invited = context('u-bob', 'BOB@x.com', [member('bob', 'viewer')])
+    expect(canRead('project_members', member('bob', 'viewer') as unknown as Record<string, unknown>, invited)).toBe(true)
+    expect(canRead('todos', todo('tA', 'pA') as unknown as Record<string, unknown>, invited)).toBe(false)
+  })
+
+  it('shows someone else’s tag only on a todo the user can see', () => {
+    const bob = { ...context('u-bob', 'bob@x.com', [member('bob', 'viewer', accepted)]), todoTags: [{ id: 'l', todo_id: 'tA', tag_id: 'tag', created_at: '', user_id: owner }] }
+    expect(canRead('tags', { id: 'tag', user_id: owner }, bob)).toBe(true)
+    expect(canRead('tags', { id: 'other', user_id: owner }, bob)).toBe(false)
+  })
+})
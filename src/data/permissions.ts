@@ -0,0 +1,167 @@
+import type { RepositoryTable } from '@/data/repository'
+import type { Project, ProjectMember, ProjectRole, Todo, TodoTag } from '@/types/todo'
+
+// Who may change what. A project's owner is whoever created it; everyone else gets their role
+// from an accepted ProjectMember row. Todos outside any project belong to their creator alone.
+// The local store checks every mutation against these rules before applying or queueing it, so
+// a write the UI should not have offered fails the same way as one it did not; the repository
+// (data/guarded-repository) checks every read and write again against the server's rows.
+
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermissionError'
+  }
+}
+
+export interface AccessContext {
+  userId: string
+  // As signed in; compared lowercased
+  email: string
+  projects: Project[]
+  members: ProjectMember[]
+  todos: Todo[]
+  // Only needed to decide who may read someone else's tags
+  todoTags?: TodoTag[]
+}
+
+type Row = Record<string, unknown>
+
+export const roleNames: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view'
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function isAccepted(member: ProjectMember): boolean {
+  return Boolean(member.member_id && member.accepted_at)
+}
+
+// Invitations addressed to this email that haven't been answered yet
+export function pendingInvitations(members: ProjectMember[], email: string): ProjectMember[] {
+  const address = normalizeEmail(email)
+  return members.filter(member => !isAccepted(member) && normalizeEmail(member.email) === address)
+}
+
+export function projectMembers(members: ProjectMember[], projectId: string): ProjectMember[] {
+  return members.filter(member => member.project_id === projectId)
+}
+
+// Undefined when the user has no access (or only an unanswered invitation)
+export function projectRole(projectId: string, { userId, projects, members }: Pick<AccessContext, 'userId' | 'projects' | 'members'>): ProjectRole | undefined {
+  if (projects.find(p => p.id === projectId)?.user_id === userId) return 'owner'
+  const membership = members.find(member => member.project_id === projectId && member.member_id === userId && isAccepted(member))
+  // Only the project row says who owns it; a member row claiming more is read as an editor
+  return membership?.role === 'owner' ? 'editor' : membership?.role
+}
+
+export function canEdit(role: ProjectRole | undefined): boolean {
+  return role === 'owner' || role === 'editor'
+}
+
+// A todo in a project follows the project's roles; anywhere else only its creator may touch it
+export function todoRole(todo: Pick<Todo, 'project_id' | 'user_id'>, context: AccessContext): ProjectRole | undefined {
+  if (todo.project_id && context.projects.some(p => p.id === todo.project_id)) return projectRole(todo.project_id, context)
+  return todo.user_id === context.userId ? 'owner' : undefined
+}
+
+// All an invitee writes when accepting; the project, role and address stay the owner's
+const ACCEPT_FIELDS = new Set(['member_id', 'accepted_at', 'updated_at'])
+
+function changedFields(before: Row, after: Row): string[] {
+  return Object.keys({ ...before, ...after }).filter(field => (before[field] ?? null) !== (after[field] ?? null))
+}
+
+function denied(role: ProjectRole | undefined): string {
+  return role ? 'You can only view this project' : 'You do not have access to this'
+}
+
+function todoDenial(todo: Row, context: AccessContext): string | undefined {
+  const role = todoRole(todo as unknown as Todo, context)
+  return canEdit(role) ? undefined : denied(role)
+}
+
+// Why the user may not write `after` over `before` (undefined before = create, undefined
+// after = delete), or undefined when they may
+export function writeDenial(table: RepositoryTable, before: Row | undefined, after: Row | undefined, context: AccessContext): string | undefined {
+  const rows = [before, after].filter((row): row is Row => row !== undefined)
+
+  switch (table) {
+    case 'todos':
+      // Moving a todo between projects needs edit rights on both sides
+      return rows.map(row => todoDenial(row, context)).find(Boolean)
+
+    case 'subtasks':
+    case 'todo_tags':
+      return rows.map(row => {
+        const todo = context.todos.find(t => t.id === row.todo_id)
+        if (todo) return todoDenial(todo as unknown as Row, context)
+        return row.user_id === context.userId ? undefined : denied(undefined)
+      }).find(Boolean)
+
+    // Anyone who can see a todo can comment on it; a comment is changed or deleted by its author,
+    // or deleted along with the todo by someone who can edit it. History entries are never edited.
+    case 'comments':
+    case 'activities': {
+      const row = (before ?? after)!
+      const todo = context.todos.find(t => t.id === row.todo_id)
+      const role = todo ? todoRole(todo, context) : row.user_id === context.userId ? 'owner' : undefined
+      if (!before) return role && after!.user_id === context.userId ? undefined : denied(undefined)
+      if (after) return table === 'comments' && before.user_id === context.userId ? undefined : 'Only the author can edit this'
+      return before.user_id === context.userId || canEdit(role) ? undefined : denied(role)
+    }
+
+    case 'projects':
+      // Renaming, moving, archiving and sharing are the owner's; the row's user_id is the owner
+      return rows.some(row => row.user_id !== context.userId) ? 'Only the owner can change this project' : undefined
+
+    case 'project_members': {
+      const row = (before ?? after)!
+      if (after?.role === 'owner' && after.member_id !== context.userId) return 'A project has only one owner'
+      if (projectRole(row.project_id as string, context) === 'owner') return undefined
+      // The invitee may accept (filling in their own id) or decline/leave, and nothing else
+      const own = before && (normalizeEmail(String(before.email)) === normalizeEmail(context.email) || before.member_id === context.userId)
+      if (own && !after) return undefined
+      if (own && after && after.member_id === context.userId && changedFields(before, after).every(field => ACCEPT_FIELDS.has(field))) return undefined
+      return 'Only the project owner can manage members'
+    }
+
+    default:
+      // Tags, categories and smart lists are personal
+      return rows.some(row => row.user_id !== context.userId) ? 'You can only change your own data' : undefined
+  }
+}
+
+// Whether the user may see a row: their own, anything in a project they belong to, the
+// invitations addressed to them, and the tags on todos they can see
+export function canRead(table: RepositoryTable, row: Row, context: AccessContext): boolean {
+  if (row.user_id === context.userId) return true
+  const visibleTodo = (id: unknown) => {
+    const todo = context.todos.find(t => t.id === id)
+    return todo !== undefined && todoRole(todo, context) !== undefined
+  }
+
+  switch (table) {
+    case 'projects':
+      return projectRole(String(row.id), context) !== undefined
+    case 'project_members':
+      return projectRole(String(row.project_id), context) !== undefined
+        || row.member_id === context.userId
+        || normalizeEmail(String(row.email ?? '')) === normalizeEmail(context.email)
+    case 'todos':
+      return todoRole(row as unknown as Todo, context) !== undefined
+    case 'subtasks':
+    case 'todo_tags':
+    case 'comments':
+    case 'activities':
+      return visibleTodo(row.todo_id)
+    case 'tags':
+      return (context.todoTags ?? []).some(link => link.tag_id === row.id && visibleTodo(link.todo_id))
+    default:
+      return false
+  }
+}
@@ -0,0 +1,34 @@
+import type { Activity, Category, Comment, Project, ProjectMember, SmartList, Subtask, Tag, Todo, TodoTag } from '@/types/todo'
+
+// CRUD access to one kind of record. Implementations may throw on network or storage errors;
+// callers (the local store's sync loop) decide whether to retry.
+export interface EntityRepository<T extends { id: string }> {
+  // All rows owned by a user, in no particular order
+  list: (userId: string) => Promise<T[]>
+  // Rows whose `field` holds one of `values`, whoever owns them; how shared projects are read
+  listWhere: (field: string, values: string[]) => Promise<T[]>
+  get: (id: string) => Promise<T | undefined>
+  create: (row: T) => Promise<void>
+  // Undefined values clear the field
+  update: (id: string, changes: Partial<T>) => Promise<void>
+  // Several updates written in one request; each entry carries its row's id
+  updateMany: (updates: (Partial<T> & { id: string })[]) => Promise<void>
+  remove: (id: string) => Promise<void>
+}
+
+export interface TodoRepository {
+  // Make sure the backing storage exists (tables, schema) before the first read
+  initialize: () => Promise<void>
+  todos: EntityRepository<Todo>
+  subtasks: EntityRepository<Subtask>
+  smart_lists: EntityRepository<SmartList>
+  tags: EntityRepository<Tag>
+  todo_tags: EntityRepository<TodoTag>
+  categories: EntityRepository<Category>
+  projects: EntityRepository<Project>
+  project_members: EntityRepository<ProjectMember>
+  comments: EntityRepository<Comment>
+  activities: EntityRepository<Activity>
+}
+
+export type RepositoryTable = Exclude<keyof TodoRepository, 'initialize'>
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react'
+import { toCategoryOptions, type CategoryOption } from '@/lib/categories'
+
+// The signed-in user's categories, archived ones included so existing todos still render theirs.
+// Pickers and filters should offer only the ones that aren't archived.
+export const CategoriesContext = createContext<CategoryOption[]>(toCategoryOptions([]))
+
+export function useCategories(): CategoryOption[] {
+  return useContext(CategoriesContext)
+}
+
+// A todo's category, or undefined if its slug was merged away
+export function useCategory(slug: string): CategoryOption | undefined {
+  return useCategories().find(cat => cat.id === slug)
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { toast } from 'react-hot-toast'
+import { loadBackend, type AuthUser } from '@/data/backend'
+import { MigrationError } from '@/data/migrations'
+import { createLocalStore, type LocalStore, type StoreSnapshot, type SyncStatus } from '@/sync/local-store'
+
+const EMPTY_SNAPSHOT: StoreSnapshot = { todos: [], subtasks: [], smartLists: [], tags: [], todoTags: [], categories: [], projects: [], members: [], comments: [], activities: [] }
+const INITIAL_STATUS: SyncStatus = { online: true, syncing: false, pending: 0, initialSync: true }
+
+const noopSubscribe = () => () => {}
+
+// Open the offline store for the signed-in user and keep components in step with it
+export function useLocalStore(user: AuthUser | null) {
+  const userId = user?.id
+  const email = user?.email
+  const [store, setStore] = useState<LocalStore | null>(null)
+  const [migrationError, setMigrationError] = useState<string>()
+
+  useEffect(() => {
+    if (!userId || email === undefined) return
+    let cancelled = false
+    let opened: LocalStore | null = null
+
+    loadBackend()
+      .then(async ({ repository, realtime }) => {
+        // Offline this fails and the local copy still works; migrations then run on the next sync.
+        // A migration that fails while online leaves the schema half-upgraded, so stop there.
+        try {
+          await repository.initialize()
+        } catch (error) {
+          if (error instanceof MigrationError) throw error
+          console.error('Error preparing database:', error)
+        }
+        return createLocalStore({ id: userId, email }, repository, realtime)
+      })
+      .then(created => {
+        if (cancelled) {
+          created.close()
+          return
+        }
+        opened = created
+        setStore(created)
+        void created.sync()
+      })
+      .catch(error => {
+        if (error instanceof MigrationError) {
+          console.error('Error migrating database:', error)
+          if (!cancelled) setMigrationError(error.message)
+          return
+        }
+        console.error('Error opening local store:', error)
+        toast.error('Failed to open local storage')
+      })
+
+    return () => {
+      cancelled = true
+      opened?.close()
+      setStore(null)
+      setMigrationError(undefined)
+    }
+  }, [userId, email])
+
+  const snapshot = useSyncExternalStore(
+    store ? store.subscribe : noopSubscribe,
+    () => store?.getSnapshot() ?? EMPTY_SNAPSHOT
+  )
+  const status = useSyncExternalStore(
+    store ? store.subscribe : noopSubscribe,
+    () => store?.getStatus() ?? INITIAL_STATUS
+  )
+
+  return { store, ...snapshot, status, migrationError: migrationError ?? status.fatalError }
+}
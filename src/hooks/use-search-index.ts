@@ -0,0 +1,18 @@
+import { useMemo, useRef } from 'react'
+import { createSearchIndex, tokenizeText, type SearchIndex, type SearchResult } from '@/lib/search-index'
+import type { Todo } from '@/types/todo'
+
+// Ranked search over `todos` and their tag names. One index lives for the component's lifetime
+// and is brought up to date whenever either changes; null when there is nothing to search for,
+// including a query with no words in it (just punctuation), so the list stays unfiltered.
+export function useSearchIndex(todos: Todo[], tags: Map<string, string[]>, query: string): SearchResult | null {
+  const index = useRef<SearchIndex | null>(null)
+
+  const synced = useMemo(() => {
+    index.current ??= createSearchIndex()
+    index.current.sync(todos, tags)
+    return index.current
+  }, [todos, tags])
+
+  return useMemo(() => (tokenizeText(query).length > 0 ? synced.search(query) : null), [synced, query])
+}
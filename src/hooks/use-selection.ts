@@ -0,0 +1,37 @@
+import { useCallback, useMemo, useRef, useState } from 'react'
+
+// Multi-select over an ordered list of ids. Shift-click extends from the last clicked row;
+// ids that drop out of the list (filtered away, deleted) stop counting as selected.
+export function useSelection(orderedIds: string[]) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set())
+  const anchor = useRef<string | undefined>(undefined)
+
+  const toggle = useCallback((id: string, range = false) => {
+    const from = anchor.current ? orderedIds.indexOf(anchor.current) : -1
+    const to = orderedIds.indexOf(id)
+    setSelected(current => {
+      const next = new Set(current)
+      if (range && from !== -1 && to !== -1) {
+        const [start, end] = from < to ? [from, to] : [to, from]
+        orderedIds.slice(start, end + 1).forEach(rangeId => next.add(rangeId))
+      } else if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+    anchor.current = id
+  }, [orderedIds])
+
+  const selectAll = useCallback(() => setSelected(new Set(orderedIds)), [orderedIds])
+
+  const clear = useCallback(() => {
+    setSelected(new Set())
+    anchor.current = undefined
+  }, [])
+
+  const selectedIds = useMemo(() => orderedIds.filter(id => selected.has(id)), [orderedIds, selected])
+
+  return { selectedIds, isSelected: (id: string) => selected.has(id), toggle, selectAll, clear }
+}
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react'
+import { isEditable, isInOverlay } from '@/lib/keyboard'
+
+// Handlers keyed by `event.key` ("j", "?", "Escape") or "mod+<key>" for Ctrl/Cmd chords
+export type ShortcutHandlers = Record<string, (() => void) | undefined>
+
+// Page-level keyboard shortcuts. Plain keys are ignored while typing or inside a dialog;
+// Ctrl/Cmd chords work everywhere. Handlers are read at key time, so callers can pass
+// fresh closures on every render.
+export function useShortcuts(handlers: ShortcutHandlers) {
+  const current = useRef(handlers)
+  current.current = handlers
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.altKey) return
+      const mod = event.ctrlKey || event.metaKey
+      if (!mod && (isEditable(event.target) || isInOverlay(event.target))) return
+      const handler = current.current[mod ? `mod+${event.key.toLowerCase()}` : event.key]
+      if (!handler) return
+      event.preventDefault()
+      handler()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+}
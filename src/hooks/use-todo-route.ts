@@ -0,0 +1,112 @@
+import { useCallback } from 'react'
+import { matchPath, useLocation, useNavigate, useSearchParams } from 'react-router-dom'
+import { parseFilter, serializeFilter, type TodoFilter } from '@/lib/filters'
+
+// URL layout: /list, /board, /calendar and /trash pick the view, /todo/:id opens one todo over
+// the view it was opened from, and filters live in the query string (?category=work&q=report,
+// ?list=<smart list id>, ?filter=<filter JSON>, ?project=<project or area id, or "inbox">) so
+// every screen can be bookmarked, shared and reached with back/forward.
+
+export type TodoView = 'list' | 'board' | 'calendar' | 'trash'
+
+export const todoViews: TodoView[] = ['list', 'board', 'calendar', 'trash']
+
+const VIEW_KEY = 'smart-todo:view'
+
+// Remembered across sessions; "/" opens the last one again (the trash is never remembered)
+export function getSavedView(): TodoView {
+  const saved = localStorage.getItem(VIEW_KEY)
+  return todoViews.find(view => view === saved && view !== 'trash') ?? 'list'
+}
+
+function isTodoView(value: unknown): value is TodoView {
+  return todoViews.some(view => view === value)
+}
+
+interface TodoRouteState {
+  // The view /todo/:id was opened from, shown behind it
+  view?: TodoView
+}
+
+export function useTodoRoute() {
+  const location = useLocation()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const todoMatch = matchPath('/todo/:id', location.pathname)
+  const segment = location.pathname.split('/')[1]
+  const state = (location.state ?? {}) as TodoRouteState
+  const view: TodoView = todoMatch ? state.view ?? 'list' : isTodoView(segment) ? segment : getSavedView()
+  // Anything else (including "/") is sent to the remembered view
+  const redirect = !todoMatch && !isTodoView(segment) ? `/${view}${location.search}` : undefined
+
+  const setView = useCallback((next: TodoView) => {
+    if (next !== 'trash') localStorage.setItem(VIEW_KEY, next)
+    navigate({ pathname: `/${next}`, search: location.search })
+  }, [navigate, location.search])
+
+  const setParams = useCallback((values: Record<string, string | undefined>, replace: boolean) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params)
+      for (const [key, value] of Object.entries(values)) {
+        if (value) next.set(key, value)
+        else next.delete(key)
+      }
+      return next
+    }, { replace, state: location.state })
+  }, [setSearchParams, location.state])
+  const setParam = useCallback(
+    (key: string, value: string | undefined, replace: boolean) => setParams({ [key]: value }, replace),
+    [setParams]
+  )
+
+  // Typing replaces the history entry so back does not step through every keystroke
+  const setQuery = useCallback((query: string) => setParam('q', query || undefined, true), [setParam])
+  const setCategory = useCallback(
+    (category: string) => setParam('category', category === 'all' ? undefined : category, false),
+    [setParam]
+  )
+
+  const setProject = useCallback(
+    (project: string | undefined) => setParam('project', project, false),
+    [setParam]
+  )
+
+  // An edited filter stops being the smart list it started from
+  const setFilter = useCallback((filter: TodoFilter | null) => {
+    setParams({ filter: filter?.conditions.length ? serializeFilter(filter) : undefined, list: undefined }, true)
+  }, [setParams])
+  const setSmartList = useCallback(
+    (id: string | undefined) => setParams({ list: id, filter: undefined }, false),
+    [setParams]
+  )
+
+  const openTodo = useCallback((id: string) => {
+    navigate({ pathname: `/todo/${id}`, search: location.search }, { state: { view } satisfies TodoRouteState })
+  }, [navigate, location.search, view])
+
+  // Opened from inside the app: go back. Opened from a link: land on its view instead.
+  const closeTodo = useCallback(() => {
+    if (state.view) navigate(-1)
+    else navigate({ pathname: `/${view}`, search: location.search }, { replace: true })
+  }, [navigate, state.view, view, location.search])
+
+  return {
+    view,
+    redirect,
+    todoId: todoMatch?.params.id,
+    query: searchParams.get('q') ?? '',
+    category: searchParams.get('category') ?? 'all',
+    filter: parseFilter(searchParams.get('filter')),
+    smartListId: searchParams.get('list') ?? undefined,
+    project: searchParams.get('project') ?? undefined,
+    setView,
+    setQuery,
+    setCategory,
+    setProject,
+    setFilter,
+    setSmartList,
+    openTodo,
+    closeTodo
+  }
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { toast } from 'react-hot-toast'
+import { isEditable } from '@/lib/keyboard'
+
+export interface UndoEntry {
+  // Shown as "Undid <label>", e.g. "delete"
+  label: string
+  undo: () => Promise<void>
+}
+
+const MAX_ENTRIES = 50
+const UNDO_TOAST_MS = 6000
+
+// Session-wide undo stack for todo mutations. Ctrl/Cmd+Z reverses the most recent entry;
+// `notify` also shows a toast with its own Undo button for that entry.
+export function useUndo() {
+  const stack = useRef<UndoEntry[]>([])
+
+  const runUndo = useCallback(async (entry: UndoEntry) => {
+    stack.current = stack.current.filter(other => other !== entry)
+    try {
+      await entry.undo()
+      toast.success(`Undid ${entry.label}`)
+    } catch (error) {
+      console.error('Error undoing change:', error)
+      toast.error(`Failed to undo ${entry.label}`)
+    }
+  }, [])
+
+  const undoLast = useCallback(async () => {
+    const entry = stack.current[stack.current.length - 1]
+    if (entry) {
+      await runUndo(entry)
+    } else {
+      toast('Nothing to undo')
+    }
+  }, [runUndo])
+
+  const record = useCallback((entry: UndoEntry) => {
+    stack.current = [...stack.current, entry].slice(-MAX_ENTRIES)
+  }, [])
+
+  const notify = useCallback((message: string, entry: UndoEntry) => {
+    record(entry)
+    toast.success(t => (
+      <span className="flex items-center gap-3">
+        {message}
+        <button
+          type="button"
+          className="text-sm font-medium text-purple-600 hover:underline"
+          onClick={() => {
+            toast.dismiss(t.id)
+            void runUndo(entry)
+          }}
+        >
+          Undo
+        </button>
+      </span>
+    ), { duration: UNDO_TOAST_MS })
+  }, [record, runUndo])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.shiftKey || event.key.toLowerCase() !== 'z') return
+      if (isEditable(event.target)) return
+      event.preventDefault()
+      void undoLast()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undoLast])
+
+  return { record, notify, undo: undoLast }
+}
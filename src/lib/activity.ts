@@ -0,0 +1,85 @@
+import { formatDueDate } from '@/lib/due-date'
+import { priorities } from '@/lib/constants'
+import type { CategoryOption } from '@/lib/categories'
+import type { Activity, ActivityKind, Comment, Todo } from '@/types/todo'
+
+// A todo's history is written by the app itself: every path that creates or changes a todo passes
+// the todo as it was and the fields it wrote to activityEntries, and only the changes people care
+// about (not positions, AI metadata and the like) become entries.
+
+export type ActivityEntry = Pick<Activity, 'kind' | 'from_value' | 'to_value'>
+
+export interface CommentThread {
+  comment: Comment
+  // Oldest first, each with its own replies
+  replies: CommentThread[]
+}
+
+const same = (a: unknown, b: unknown) => (a ?? '') === (b ?? '')
+
+// What changed, as log entries; no `before` means the todo was just created
+export function activityEntries(before: Todo | undefined, changes: Partial<Todo>): ActivityEntry[] {
+  if (!before) return [{ kind: 'created' }]
+  const entries: ActivityEntry[] = []
+  const change = (kind: ActivityKind, field: 'category' | 'priority' | 'due_date') => {
+    if (field in changes && !same(changes[field], before[field])) {
+      entries.push({ kind, from_value: before[field] || undefined, to_value: changes[field] || undefined })
+    }
+  }
+  change('recategorized', 'category')
+  change('priority_changed', 'priority')
+  if ('completed' in changes && Number(changes.completed) > 0 !== Number(before.completed) > 0) {
+    entries.push({ kind: Number(changes.completed) > 0 ? 'completed' : 'reopened' })
+  }
+  change('due_date_moved', 'due_date')
+  return entries
+}
+
+// "completed this", "changed the priority from Low to High", …; the author is shown separately
+export function describeActivity(activity: Activity, categories: CategoryOption[]): string {
+  const categoryName = (slug?: string) => categories.find(cat => cat.id === slug)?.name ?? slug ?? 'none'
+  const priorityName = (id?: string) => priorities.find(p => p.id === id)?.name ?? id ?? 'none'
+
+  switch (activity.kind) {
+    case 'created':
+      return 'created this task'
+    case 'recategorized':
+      return activity.from_value
+        ? `moved it from ${categoryName(activity.from_value)} to ${categoryName(activity.to_value)}`
+        : `filed it under ${categoryName(activity.to_value)}`
+    case 'priority_changed':
+      return `changed the priority from ${priorityName(activity.from_value)} to ${priorityName(activity.to_value)}`
+    case 'completed':
+      return 'completed it'
+    case 'reopened':
+      return 'reopened it'
+    case 'due_date_moved':
+      if (!activity.to_value) return `removed the due date (was ${formatDueDate(activity.from_value)})`
+      if (!activity.from_value) return `set the due date to ${formatDueDate(activity.to_value)}`
+      return `moved the due date from ${formatDueDate(activity.from_value)} to ${formatDueDate(activity.to_value)}`
+    default:
+      return 'changed it'
+  }
+}
+
+// Comments as reply trees, oldest first; replies whose parent is gone move up to the top level
+export function buildCommentThreads(comments: Comment[]): CommentThread[] {
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const threads = new Map(sorted.map(comment => [comment.id, { comment, replies: [] as CommentThread[] }]))
+  const roots: CommentThread[] = []
+  for (const thread of threads.values()) {
+    const parent = thread.comment.parent_id ? threads.get(thread.comment.parent_id) : undefined
+    if (parent) parent.replies.push(thread)
+    else roots.push(thread)
+  }
+  return roots
+}
+
+// A comment and every reply below it, for deleting a whole branch
+export function commentBranch(comments: Comment[], id: string): string[] {
+  const ids = [id]
+  for (const comment of comments) {
+    if (comment.parent_id === id) ids.push(...commentBranch(comments, comment.id))
+  }
+  return ids
+}
@@ -0,0 +1,48 @@
+import type { CategoryOption } from '@/lib/categories'
+import { priorities } from '@/lib/constants'
+import type { Todo } from '@/types/todo'
+
+export type TodoStatus = 'todo' | 'in_progress' | 'done'
+
+export type BoardGrouping = 'status' | 'priority' | 'category'
+
+export interface BoardColumn {
+  id: string
+  name: string
+  color: string
+}
+
+export const boardGroupings: { id: BoardGrouping; name: string }[] = [
+  { id: 'status', name: 'Status' },
+  { id: 'priority', name: 'Priority' },
+  { id: 'category', name: 'Category' }
+]
+
+export const todoStatuses: (BoardColumn & { id: TodoStatus })[] = [
+  { id: 'todo', name: 'To do', color: 'bg-gray-100 text-gray-800' },
+  { id: 'in_progress', name: 'In progress', color: 'bg-blue-100 text-blue-800' },
+  { id: 'done', name: 'Done', color: 'bg-green-100 text-green-800' }
+]
+
+// Done is the completed flag; in progress is only meaningful while the todo is open
+export function getTodoStatus(todo: Todo): TodoStatus {
+  if (Number(todo.completed) > 0) return 'done'
+  return Number(todo.in_progress) > 0 ? 'in_progress' : 'todo'
+}
+
+// `categories` are the category columns to show, in order
+export function getBoardColumns(grouping: BoardGrouping, categories: CategoryOption[]): BoardColumn[] {
+  if (grouping === 'status') return todoStatuses
+  // Most urgent first
+  if (grouping === 'priority') return [...priorities].reverse()
+  return categories
+}
+
+export function getColumnId(todo: Todo, grouping: BoardGrouping): string {
+  if (grouping === 'status') return getTodoStatus(todo)
+  return grouping === 'priority' ? todo.priority : todo.category
+}
+
+export function isBoardGrouping(value: unknown): value is BoardGrouping {
+  return boardGroupings.some(grouping => grouping.id === value)
+}
@@ -0,0 +1,155 @@
+import {
+  Baby,
+  BookOpen,
+  Briefcase,
+  Car,
+  Code,
+  Dumbbell,
+  Folder,
+  Gamepad2,
+  GraduationCap,
+  Heart,
+  Home,
+  Landmark,
+  Music,
+  Palette,
+  PawPrint,
+  Plane,
+  Settings,
+  ShoppingCart,
+  Sprout,
+  Stethoscope,
+  Users,
+  Utensils,
+  Wallet,
+  Wrench,
+  type LucideIcon
+} from 'lucide-react'
+import type { Category } from '@/types/todo'
+
+// Categories are per-user rows, but nobody starts with any: the built-in set below is shown
+// until the first edit, which writes all of it out as rows. Todos refer to a category by
+// slug, which is fixed at creation so renames never touch todos or saved filters.
+
+// Icons a category can use, by name
+export const categoryIcons: Record<string, LucideIcon> = {
+  briefcase: Briefcase,
+  heart: Heart,
+  home: Home,
+  'book-open': BookOpen,
+  'shopping-cart': ShoppingCart,
+  settings: Settings,
+  folder: Folder,
+  'graduation-cap': GraduationCap,
+  dumbbell: Dumbbell,
+  stethoscope: Stethoscope,
+  wallet: Wallet,
+  landmark: Landmark,
+  users: Users,
+  baby: Baby,
+  'paw-print': PawPrint,
+  car: Car,
+  plane: Plane,
+  utensils: Utensils,
+  sprout: Sprout,
+  wrench: Wrench,
+  code: Code,
+  palette: Palette,
+  music: Music,
+  'gamepad-2': Gamepad2
+}
+
+// Badge classes per color name; spelled out in full so Tailwind keeps them
+export const categoryColors: Record<string, string> = {
+  gray: 'bg-gray-100 text-gray-800',
+  red: 'bg-red-100 text-red-800',
+  orange: 'bg-orange-100 text-orange-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  green: 'bg-green-100 text-green-800',
+  teal: 'bg-teal-100 text-teal-800',
+  blue: 'bg-blue-100 text-blue-800',
+  indigo: 'bg-indigo-100 text-indigo-800',
+  purple: 'bg-purple-100 text-purple-800',
+  pink: 'bg-pink-100 text-pink-800'
+}
+
+// A category ready to render: `id` is the slug todos store, icon and color are resolved
+export interface CategoryOption {
+  id: string
+  name: string
+  description: string
+  icon: LucideIcon
+  color: string
+  archived: boolean
+}
+
+type CategoryDefaults = Pick<Category, 'slug' | 'name' | 'description' | 'icon' | 'color'>
+
+export const defaultCategories: CategoryDefaults[] = [
+  { slug: 'work', name: 'Work', description: 'professional tasks, meetings, projects, deadlines', icon: 'briefcase', color: 'blue' },
+  { slug: 'personal', name: 'Personal', description: 'hobbies, social activities, personal goals', icon: 'heart', color: 'pink' },
+  { slug: 'health', name: 'Health', description: 'exercise, medical appointments, wellness', icon: 'heart', color: 'green' },
+  { slug: 'home', name: 'Home', description: 'chores, maintenance, home improvement', icon: 'home', color: 'yellow' },
+  { slug: 'learning', name: 'Learning', description: 'education, skills, reading, courses', icon: 'book-open', color: 'purple' },
+  { slug: 'shopping', name: 'Shopping', description: 'buying items, groceries, online purchases', icon: 'shopping-cart', color: 'orange' },
+  { slug: 'other', name: 'Other', description: "anything that doesn't fit the above", icon: 'settings', color: 'gray' }
+]
+
+// Where todos go when nothing else fits, unless the user archived or merged it away
+const FALLBACK_SLUG = 'other'
+
+// Derived from owner and slug, so two devices writing out the defaults produce the same rows
+export function categoryRowId(userId: string, slug: string): string {
+  return `category-${userId}-${slug}`
+}
+
+export function defaultCategoryRows(userId: string, now: Date = new Date()): Category[] {
+  const createdAt = now.toISOString()
+  return defaultCategories.map((category, index) => ({
+    ...category,
+    id: categoryRowId(userId, category.slug),
+    position: index,
+    created_at: createdAt,
+    user_id: userId
+  }))
+}
+
+function toOption(category: CategoryDefaults & { archived?: boolean }): CategoryOption {
+  return {
+    id: category.slug,
+    name: category.name,
+    description: category.description ?? '',
+    icon: categoryIcons[category.icon] ?? Folder,
+    color: categoryColors[category.color] ?? categoryColors.gray,
+    archived: Number(category.archived) > 0
+  }
+}
+
+// The user's categories in display order, or the built-in ones if they have none yet
+export function toCategoryOptions(rows: Category[]): CategoryOption[] {
+  if (rows.length === 0) return defaultCategories.map(toOption)
+  return [...rows].sort((a, b) => Number(a.position) - Number(b.position)).map(toOption)
+}
+
+// Match typed text (#work in quick add, category:work in search) against a slug or name;
+// names with spaces can be typed with dashes
+export function findCategory<T extends { id: string; name: string }>(categories: T[], text: string): T | undefined {
+  const wanted = text.trim().toLowerCase()
+  return categories.find(cat => cat.id === wanted)
+    ?? categories.find(cat => [cat.name.toLowerCase(), cat.name.toLowerCase().replace(/\s+/g, '-')].includes(wanted))
+}
+
+// Slug for a new category: the name in lowercase with dashes, numbered if already taken
+export function slugifyCategory(name: string, taken: string[]): string {
+  const base = name.trim().toLowerCase().normalize('NFD').replace(/\p{M}/gu, '')
+    .replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'category'
+  let slug = base
+  for (let n = 2; taken.includes(slug); n++) slug = `${base}-${n}`
+  return slug
+}
+
+// The category for todos the classifier can't place
+export function fallbackCategory(categories: CategoryOption[]): string {
+  const active = categories.filter(cat => !cat.archived)
+  return (active.find(cat => cat.id === FALLBACK_SLUG) ?? active[active.length - 1] ?? categories[0])?.id ?? FALLBACK_SLUG
+}
@@ -0,0 +1,130 @@
+import { z } from 'zod'
+import { format, isValid, parse } from 'date-fns'
+import { loadBackend } from '@/data/backend'
+import { fallbackCategory, type CategoryOption } from '@/lib/categories'
+import { priorities } from '@/lib/constants'
+import { normalizeTagName } from '@/lib/tags'
+import type { Todo } from '@/types/todo'
+
+export interface Classification {
+  category: Todo['category']
+  priority: Todo['priority']
+  // ISO timestamp at local midnight, only when the model found a date in the text
+  suggestedDueDate?: string
+  // 0..1; 0 means the model gave us nothing usable and the defaults were used
+  confidence: number
+  rationale: string
+  // Picked from the user's existing tags only; the model never invents new ones
+  tags: string[]
+}
+
+const priorityIds = priorities.map(p => p.id) as [Todo['priority'], ...Todo['priority'][]]
+
+// Models wrap enum values in quotes, capitals or trailing periods; strip that before matching
+const enumValue = (value: unknown) =>
+  typeof value === 'string' ? value.trim().toLowerCase().replace(/[^a-z]/g, '') : value
+
+// Category slugs may contain digits and dashes, so keep those
+const slugValue = (value: unknown) =>
+  typeof value === 'string' ? value.trim().toLowerCase().replace(/[^a-z0-9-]/g, '') : value
+
+// Categories are the user's own, so the schema is built per call
+const classificationSchema = (categoryIds: [string, ...string[]]) => z.object({
+  category: z.preprocess(slugValue, z.enum(categoryIds)),
+  priority: z.preprocess(enumValue, z.enum(priorityIds)),
+  suggested_due_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .nullish()
+    .catch(null),
+  confidence: z.coerce.number().min(0).max(1).catch(0.5),
+  rationale: z.string().trim().max(300).catch(''),
+  tags: z.array(z.string()).max(5).catch([])
+})
+
+const fallback = (categories: CategoryOption[]): Classification => ({
+  category: fallbackCategory(categories),
+  priority: 'medium',
+  confidence: 0,
+  rationale: '',
+  tags: []
+})
+
+const describeCategory = (cat: CategoryOption) =>
+  `- ${cat.id}: ${cat.name}${cat.description ? ` (${cat.description})` : ''}`
+
+const buildPrompt = (
+  title: string,
+  description: string,
+  today: string,
+  categories: CategoryOption[],
+  tags: string[]
+) => `Classify this todo task. Today is ${today}.
+
+Task: "${title}"
+Description: "${description}"
+
+Categories (answer with the id before the colon):
+${categories.map(describeCategory).join('\n')}
+
+Priorities (consider urgency, importance and impact):
+- high: urgent deadlines, important meetings, critical tasks
+- medium: important but not urgent, moderate impact
+- low: nice to have, can be done later, minimal impact
+${tags.length > 0 ? `
+The user's existing tags: ${tags.join(', ')}
+` : ''}
+Respond with only a JSON object, no prose and no code fences:
+{"category": "<category>", "priority": "<priority>", "suggested_due_date": "<YYYY-MM-DD or null>", "confidence": <0 to 1>, "rationale": "<one short sentence>", "tags": [<existing tags that clearly apply>]}
+
+Only suggest a due date when the task text implies one. Only use tags from the existing list, and leave "tags" empty when none fit.`
+
+// Pull the first {...} block out of the reply; models like to add code fences around JSON
+function extractJson(text: string): unknown {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end <= start) throw new Error('No JSON object in classification response')
+  return JSON.parse(text.slice(start, end + 1))
+}
+
+// Categorize and prioritize a todo with a single AI call, choosing among the user's
+// categories that aren't archived; `existingTags` may be suggested back
+export async function classifyTodo(
+  title: string,
+  description: string,
+  categories: CategoryOption[],
+  existingTags: string[] = []
+): Promise<Classification> {
+  const active = categories.filter(cat => !cat.archived)
+  try {
+    const { ai } = await loadBackend()
+    if (!ai || active.length === 0) return fallback(categories)
+
+    const { text } = await ai.generateText({
+      prompt: buildPrompt(title, description, format(new Date(), 'yyyy-MM-dd (EEEE)'), active, existingTags),
+      maxTokens: 200
+    })
+
+    const categoryIds = active.map(cat => cat.id) as [string, ...string[]]
+    const result = classificationSchema(categoryIds).safeParse(extractJson(text))
+    if (!result.success) {
+      console.error('Invalid classification response:', result.error.issues, text)
+      return fallback(categories)
+    }
+
+    const { category, priority, suggested_due_date, confidence, rationale, tags } = result.data
+    const suggested = suggested_due_date ? parse(suggested_due_date, 'yyyy-MM-dd', new Date()) : undefined
+
+    return {
+      category,
+      priority,
+      suggestedDueDate: suggested && isValid(suggested) ? suggested.toISOString() : undefined,
+      confidence,
+      rationale,
+      tags: Array.from(new Set(tags.map(normalizeTagName))).filter(tag => existingTags.includes(tag))
+    }
+  } catch (error) {
+    console.error('Error classifying todo:', error)
+    return fallback(categories)
+  }
+}
@@ -0,0 +1,5 @@
+export const priorities = [
+  { id: 'low', name: 'Low', color: 'bg-green-100 text-green-800' },
+  { id: 'medium', name: 'Medium', color: 'bg-yellow-100 text-yellow-800' },
+  { id: 'high', name: 'High', color: 'bg-red-100 text-red-800' }
+]
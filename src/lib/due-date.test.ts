@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { getDueState } from '@/lib/due-date'
+import { matchesFilter } from '@/lib/filters'
+import type { Todo } from '@/types/todo'
+
+// Monday 5 January 2026, 08:00: never the real today, so these fail if the clock leaks in
+const now = new Date(2026, 0, 5, 8, 0)
+const iso = (day: number, hours = 12) => new Date(2026, 0, day, hours).toISOString()
+
+describe('getDueState', () => {
+  it('judges the due date against the given now', () => {
+    expect(getDueState(iso(4), now)).toBe('overdue')
+    // By calendar day: earlier today is still today
+    expect(getDueState(iso(5, 7), now)).toBe('today')
+    expect(getDueState(iso(5), now)).toBe('today')
+    expect(getDueState(iso(11), now)).toBe('week')
+    expect(getDueState(iso(12), now)).toBe('later')
+    expect(getDueState(undefined, now)).toBeNull()
+  })
+})
+
+describe('matchesFilter due this_week', () => {
+  const todo = (due_date: string) => ({ id: 't', title: 't', description: '', category: 'work', priority: 'low', completed: false, created_at: iso(1), user_id: 'u', due_date }) as Todo
+  const thisWeek = { match: 'all' as const, conditions: [{ field: 'due' as const, value: 'this_week' as const }] }
+
+  it('uses the given now for the week', () => {
+    expect(matchesFilter(todo(iso(11)), thisWeek, [], now)).toBe(true)
+    expect(matchesFilter(todo(iso(12)), thisWeek, [], now)).toBe(false)
+  })
+})
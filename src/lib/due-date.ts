@@ -0,0 +1,53 @@
+import { format, isBefore, isSameDay, isSameWeek, isValid, parseISO, startOfDay } from 'date-fns'
+
+export type DueState = 'overdue' | 'today' | 'week' | 'later'
+
+export const dueStates: Record<DueState, { name: string; color: string }> = {
+  overdue: { name: 'Overdue', color: 'bg-red-100 text-red-800' },
+  today: { name: 'Due today', color: 'bg-amber-100 text-amber-800' },
+  week: { name: 'Due this week', color: 'bg-sky-100 text-sky-800' },
+  later: { name: 'Due', color: 'bg-gray-100 text-gray-700' }
+}
+
+// Parse a stored due_date, tolerating empty strings and garbage from older rows
+export function parseDueDate(value?: string | null): Date | undefined {
+  if (!value) return undefined
+  const date = parseISO(value)
+  return isValid(date) ? date : undefined
+}
+
+// Due dates are compared by calendar day, so a task due "today" is never overdue before midnight
+export function getDueState(value?: string | null, now: Date = new Date()): DueState | null {
+  const due = parseDueDate(value)
+  if (!due) return null
+  if (isBefore(due, startOfDay(now))) return 'overdue'
+  if (isSameDay(due, now)) return 'today'
+  if (isSameWeek(due, now, { weekStartsOn: 1 })) return 'week'
+  return 'later'
+}
+
+// Short label for a due date; the time is only shown when one was set
+export function formatDueDate(value?: string | null): string {
+  const due = parseDueDate(value)
+  if (!due) return ''
+  const hasTime = due.getHours() !== 0 || due.getMinutes() !== 0
+  return format(due, hasTime ? 'MMM d, h:mm a' : 'MMM d')
+}
+
+// Serialize a picked day; the picker returns local midnight, which round-trips through parseISO
+export function toDueDateValue(date?: Date): string | undefined {
+  return date ? date.toISOString() : undefined
+}
+
+// Stable per-day key for grouping todos by their due day
+export function toDayKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+// Move a due date to another day, keeping the time of day if one was set
+export function moveDueDateToDay(value: string | undefined | null, day: Date): string {
+  const current = parseDueDate(value)
+  const next = startOfDay(day)
+  if (current) next.setHours(current.getHours(), current.getMinutes())
+  return next.toISOString()
+}
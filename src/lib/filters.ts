@@ -0,0 +1,206 @@
+import { z } from 'zod'
+import { addDays, endOfDay, format, isBefore, isSameWeek, isAfter, parseISO, startOfDay } from 'date-fns'
+import type { CategoryOption } from '@/lib/categories'
+import { priorities } from '@/lib/constants'
+import { getDueState, parseDueDate } from '@/lib/due-date'
+import { normalizeTagName } from '@/lib/tags'
+import type { Todo } from '@/types/todo'
+
+// Structured todo filters: a list of conditions joined with AND ("all") or OR ("any").
+// Smart lists store one of these as JSON; the URL carries the ad-hoc one.
+
+export type DueRange = 'overdue' | 'today' | 'this_week' | 'next_days' | 'before' | 'after' | 'none' | 'any'
+
+export type TodoStatusFilter = 'open' | 'completed' | 'in_progress'
+
+export type FilterField = FilterCondition['field']
+
+export type FilterCondition = { negate?: boolean } & (
+  | { field: 'category'; value: Todo['category'] }
+  | { field: 'priority'; value: Todo['priority'] }
+  | { field: 'status'; value: TodoStatusFilter }
+  // next_days uses `days`; before/after use `date` (yyyy-MM-dd)
+  | { field: 'due'; value: DueRange; days?: number; date?: string }
+  | { field: 'tag'; value: string }
+  | { field: 'text'; value: string }
+)
+
+export interface TodoFilter {
+  match: 'all' | 'any'
+  conditions: FilterCondition[]
+}
+
+export const EMPTY_FILTER: TodoFilter = { match: 'all', conditions: [] }
+
+export const filterFields: { id: FilterField; name: string }[] = [
+  { id: 'category', name: 'Category' },
+  { id: 'priority', name: 'Priority' },
+  { id: 'status', name: 'Status' },
+  { id: 'due', name: 'Due' },
+  { id: 'tag', name: 'Tag' },
+  { id: 'text', name: 'Text' }
+]
+
+export const statusOptions: { id: TodoStatusFilter; name: string }[] = [
+  { id: 'open', name: 'Open' },
+  { id: 'in_progress', name: 'In progress' },
+  { id: 'completed', name: 'Completed' }
+]
+
+export const dueRanges: { id: DueRange; name: string }[] = [
+  { id: 'overdue', name: 'Overdue' },
+  { id: 'today', name: 'Today' },
+  { id: 'this_week', name: 'This week' },
+  { id: 'next_days', name: 'In the next N days' },
+  { id: 'before', name: 'Before' },
+  { id: 'after', name: 'After' },
+  { id: 'any', name: 'Has a due date' },
+  { id: 'none', name: 'No due date' }
+]
+
+const priorityIds = priorities.map(p => p.id) as [Todo['priority'], ...Todo['priority'][]]
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+const conditionSchema = z.discriminatedUnion('field', [
+  // Any slug: categories are per user, and one merged away simply matches nothing
+  z.object({ field: z.literal('category'), value: z.string().min(1), negate: z.boolean().optional() }),
+  z.object({ field: z.literal('priority'), value: z.enum(priorityIds), negate: z.boolean().optional() }),
+  z.object({ field: z.literal('status'), value: z.enum(['open', 'completed', 'in_progress']), negate: z.boolean().optional() }),
+  z.object({
+    field: z.literal('due'),
+    value: z.enum(['overdue', 'today', 'this_week', 'next_days', 'before', 'after', 'none', 'any']),
+    days: z.number().int().min(0).optional(),
+    date: dateString.optional(),
+    negate: z.boolean().optional()
+  }),
+  z.object({ field: z.literal('tag'), value: z.string().min(1), negate: z.boolean().optional() }),
+  z.object({ field: z.literal('text'), value: z.string().min(1), negate: z.boolean().optional() })
+])
+
+const filterSchema = z.object({
+  match: z.enum(['all', 'any']).catch('all'),
+  conditions: z.array(conditionSchema)
+})
+
+// Parse a stored or linked filter; anything malformed counts as no filter at all
+export function parseFilter(json?: string | null): TodoFilter | null {
+  if (!json) return null
+  try {
+    const result = filterSchema.safeParse(JSON.parse(json))
+    return result.success ? result.data : null
+  } catch {
+    return null
+  }
+}
+
+export function serializeFilter(filter: TodoFilter): string {
+  return JSON.stringify(filter)
+}
+
+function matchesDue(todo: Todo, condition: Extract<FilterCondition, { field: 'due' }>, now: Date): boolean {
+  const due = parseDueDate(todo.due_date)
+  if (condition.value === 'none') return !due
+  if (!due) return false
+  switch (condition.value) {
+    case 'any':
+      return true
+    case 'overdue':
+    case 'today':
+      return getDueState(todo.due_date, now) === condition.value
+    case 'this_week':
+      return isSameWeek(due, now, { weekStartsOn: 1 })
+    case 'next_days':
+      return !isBefore(due, startOfDay(now)) && !isAfter(due, endOfDay(addDays(now, condition.days ?? 7)))
+    case 'before':
+      return condition.date ? isBefore(due, startOfDay(parseISO(condition.date))) : true
+    case 'after':
+      return condition.date ? isAfter(due, endOfDay(parseISO(condition.date))) : true
+  }
+}
+
+function matchesCondition(todo: Todo, condition: FilterCondition, tags: string[], now: Date): boolean {
+  switch (condition.field) {
+    case 'category':
+      return todo.category === condition.value
+    case 'priority':
+      return todo.priority === condition.value
+    case 'status': {
+      const completed = Number(todo.completed) > 0
+      if (condition.value === 'completed') return completed
+      if (condition.value === 'in_progress') return !completed && Number(todo.in_progress) > 0
+      return !completed
+    }
+    case 'due':
+      return matchesDue(todo, condition, now)
+    case 'tag':
+      return tags.includes(normalizeTagName(condition.value))
+    case 'text': {
+      const text = condition.value.toLowerCase()
+      return todo.title.toLowerCase().includes(text) || (todo.description ?? '').toLowerCase().includes(text)
+    }
+  }
+}
+
+// `tags` are the names of the todo's tags, which live outside the todo row
+export function matchesFilter(todo: Todo, filter: TodoFilter, tags: string[] = [], now: Date = new Date()): boolean {
+  if (filter.conditions.length === 0) return true
+  const test = (condition: FilterCondition) => matchesCondition(todo, condition, tags, now) !== Boolean(condition.negate)
+  return filter.match === 'all' ? filter.conditions.every(test) : filter.conditions.some(test)
+}
+
+// Short label for a chip, e.g. "Priority is High" or "Due not in the next 7 days"
+export function describeCondition(condition: FilterCondition, categories: CategoryOption[]): string {
+  const not = condition.negate ? 'not ' : ''
+  switch (condition.field) {
+    case 'category':
+      return `Category is ${not}${categories.find(cat => cat.id === condition.value)?.name ?? condition.value}`
+    case 'priority':
+      return `Priority is ${not}${priorities.find(p => p.id === condition.value)?.name ?? condition.value}`
+    case 'status':
+      return `Status is ${not}${statusOptions.find(s => s.id === condition.value)?.name.toLowerCase()}`
+    case 'tag':
+      return `${condition.negate ? 'Not tagged' : 'Tagged'} #${condition.value}`
+    case 'text':
+      return `${condition.negate ? 'Excludes' : 'Contains'} “${condition.value}”`
+    case 'due': {
+      const date = condition.date ? format(parseISO(condition.date), 'MMM d') : '…'
+      const range = {
+        overdue: 'overdue',
+        today: 'today',
+        this_week: 'this week',
+        next_days: `in the next ${condition.days ?? 7} days`,
+        before: `before ${date}`,
+        after: `after ${date}`,
+        any: 'set',
+        none: 'not set'
+      }[condition.value]
+      return `Due ${not}${range}`
+    }
+  }
+}
+
+// A new condition for a field, with a sensible starting value
+export function defaultCondition(field: FilterField, categories: CategoryOption[]): FilterCondition {
+  switch (field) {
+    case 'category':
+      return { field, value: categories.find(cat => !cat.archived)?.id ?? '' }
+    case 'priority':
+      return { field, value: 'high' }
+    case 'status':
+      return { field, value: 'open' }
+    case 'due':
+      return { field, value: 'next_days', days: 7 }
+    case 'tag':
+    case 'text':
+      return { field, value: '' }
+  }
+}
+
+// Conditions still being typed (empty tag or text) are left out rather than matching nothing
+export function completeConditions(filter: TodoFilter): TodoFilter {
+  return {
+    ...filter,
+    conditions: filter.conditions.filter(condition =>
+      (condition.field !== 'tag' && condition.field !== 'text') || condition.value.trim() !== '')
+  }
+}
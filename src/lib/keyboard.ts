@@ -0,0 +1,46 @@
+// Single-key shortcuts and the help sheet that lists them
+
+export interface Shortcut {
+  keys: string[]
+  description: string
+}
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+export const MOD_KEY = isMac ? '⌘' : 'Ctrl'
+
+export const shortcuts: { group: string; items: Shortcut[] }[] = [
+  {
+    group: 'General',
+    items: [
+      { keys: [MOD_KEY, 'K'], description: 'Open the command palette' },
+      { keys: [MOD_KEY, 'Z'], description: 'Undo' },
+      { keys: ['?'], description: 'Show keyboard shortcuts' },
+      { keys: ['/'], description: 'Search' },
+      { keys: ['n'], description: 'New todo' },
+      { keys: [MOD_KEY, 'B'], description: 'Show or hide projects' }
+    ]
+  },
+  {
+    group: 'Todos',
+    items: [
+      { keys: ['j'], description: 'Next todo' },
+      { keys: ['k'], description: 'Previous todo' },
+      { keys: ['x'], description: 'Complete or reopen' },
+      { keys: ['e'], description: 'Edit' },
+      { keys: ['Esc'], description: 'Clear the focused todo' }
+    ]
+  }
+]
+
+// Text fields keep their own keys (including Ctrl+Z)
+export function isEditable(target: EventTarget | null) {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+// Keys typed into a dialog, menu or listbox belong to it, not to the page behind
+export function isInOverlay(target: EventTarget | null) {
+  return target instanceof Element &&
+    Boolean(target.closest('[role="dialog"], [role="alertdialog"], [role="menu"], [role="listbox"]'))
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { comparePositions, positionBetween, spreadPositions } from '@/lib/position'
+
+describe('positionBetween', () => {
+  it('finds a key strictly between two neighbours', () => {
+    const key = positionBetween('1', '2')!
+    expect(key > '1' && key < '2').toBe(true)
+  })
+
+  it('handles a missing neighbour at either end', () => {
+    expect(positionBetween(undefined, undefined)).toBe('i')
+    expect(positionBetween(undefined, 'i')! < 'i').toBe(true)
+    expect(positionBetween('i', undefined)! > 'i').toBe(true)
+  })
+
+  it('keeps finding room for repeated inserts at the front', () => {
+    let first = 'i'
+    for (let i = 0; i < 20; i++) {
+      const key = positionBetween(undefined, first)!
+      expect(key < first).toBe(true)
+      first = key
+    }
+  })
+
+  it('keeps a list ordered through random inserts', () => {
+    const list = spreadPositions(5)
+    for (let i = 0; i < 300; i++) {
+      const at = (i * 7) % (list.length + 1)
+      const key = positionBetween(list[at - 1], list[at])
+      if (!key) continue
+      expect(key.endsWith('0')).toBe(false)
+      list.splice(at, 0, key)
+    }
+    expect([...list].sort(comparePositions)).toEqual(list)
+  })
+
+  it('asks for a respread when the neighbours have no usable order', () => {
+    expect(positionBetween('i', 'i')).toBeUndefined()
+    expect(positionBetween('k', 'i')).toBeUndefined()
+    expect(positionBetween('i0', undefined)).toBeUndefined()
+  })
+})
+
+describe('spreadPositions', () => {
+  it('returns evenly spaced keys in order', () => {
+    const keys = spreadPositions(1000)
+    expect(new Set(keys).size).toBe(1000)
+    expect([...keys].sort(comparePositions)).toEqual(keys)
+  })
+})
@@ -0,0 +1,56 @@
+// Fractional indexing for manual ordering. A position is a base-36 fraction written without
+// the leading "0." ("i" is 0.5), so plain string comparison orders them and there is always
+// room for another key between two neighbours: moving a todo rewrites only that todo.
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz'
+
+// Repeated inserts at one spot grow keys by a digit every few moves; past this, respread
+const MAX_LENGTH = 32
+
+// Key strictly between a and b, where '' stands for 0 and null for 1. Neither may end in '0'.
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Shared prefix: keep it and split the remainder
+    let n = 0
+    while ((a[n] ?? '0') === b[n]) n++
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n))
+  }
+  const low = a ? DIGITS.indexOf(a[0]) : 0
+  const high = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+  if (high - low > 1) return DIGITS[Math.round((low + high) / 2)]
+  // Adjacent first digits: b's first digit alone fits if b continues past it
+  if (b !== null && b.length > 1) return b.slice(0, 1)
+  return DIGITS[low] + midpoint(a.slice(1), null)
+}
+
+function isValidPosition(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-z]*[1-9a-z]$/.test(value)
+}
+
+export function comparePositions(a?: string | null, b?: string | null): number {
+  const x = a ?? ''
+  const y = b ?? ''
+  return x < y ? -1 : x > y ? 1 : 0
+}
+
+// Position for an item placed between two neighbours; either may be missing (start or end of
+// the list). Returns undefined when the neighbours have no usable order, or the key would get
+// too long, and the list needs respreading.
+export function positionBetween(before?: string | null, after?: string | null): string | undefined {
+  if (before != null && !isValidPosition(before)) return undefined
+  if (after != null && !isValidPosition(after)) return undefined
+  if (before && after && before >= after) return undefined
+  const position = midpoint(before ?? '', after ?? null)
+  return position.length <= MAX_LENGTH ? position : undefined
+}
+
+// Evenly spaced, equal-length positions for `count` items in order
+export function spreadPositions(count: number): string[] {
+  let width = 1
+  while (DIGITS.length ** width < (count + 1) * 2) width++
+  const span = DIGITS.length ** width
+  return Array.from({ length: count }, (_, index) => {
+    const value = Math.floor(((index + 1) * span) / (count + 1))
+    return value.toString(36).padStart(width, '0').replace(/0+$/, '')
+  })
+}
@@ -0,0 +1,72 @@
+import { getDueState } from '@/lib/due-date'
+import type { Project, Todo } from '@/types/todo'
+
+// Projects hold todos and can sit inside an area; areas only group projects, one level deep.
+// Todos without a project are in the inbox. Archiving a project keeps its todos but takes them
+// out of every other view until it is unarchived.
+
+// The route's ?project= value for todos that aren't in any project
+export const INBOX = 'inbox'
+
+export interface ProjectTree {
+  // Each area with its projects that aren't archived
+  areas: { area: Project; projects: Project[] }[]
+  // Projects outside any area (or whose area is gone)
+  projects: Project[]
+  archived: Project[]
+}
+
+export interface ProjectStats {
+  total: number
+  completed: number
+  open: number
+  overdue: number
+  // 0..100
+  progress: number
+}
+
+export function isArchived(project: Project): boolean {
+  return Boolean(project.archived_at)
+}
+
+// Projects as the sidebar shows them; `projects` is expected in position order
+export function buildProjectTree(projects: Project[]): ProjectTree {
+  const areas = projects.filter(p => p.kind === 'area')
+  const live = projects.filter(p => p.kind !== 'area' && !isArchived(p))
+  return {
+    areas: areas.map(area => ({ area, projects: live.filter(p => p.parent_id === area.id) })),
+    projects: live.filter(p => !p.parent_id || !areas.some(area => area.id === p.parent_id)),
+    archived: projects.filter(p => p.kind !== 'area' && isArchived(p))
+  }
+}
+
+// Which todos a ?project= selection covers: one project, every project in an area, or the inbox.
+// With nothing selected, todos in archived projects are left out.
+export function todoInScope(todo: Todo, scope: string | undefined, projects: Project[]): boolean {
+  if (!scope) {
+    const project = todo.project_id ? projects.find(p => p.id === todo.project_id) : undefined
+    return !project || !isArchived(project)
+  }
+  if (scope === INBOX) return !todo.project_id || !projects.some(p => p.id === todo.project_id)
+  if (todo.project_id === scope) return true
+  const project = projects.find(p => p.id === todo.project_id)
+  return Boolean(project && !isArchived(project) && project.parent_id === scope)
+}
+
+export function getProjectStats(todos: Todo[], now: Date = new Date()): ProjectStats {
+  const completed = todos.filter(todo => Number(todo.completed) > 0).length
+  const overdue = todos.filter(todo => !(Number(todo.completed) > 0) && getDueState(todo.due_date, now) === 'overdue').length
+  return {
+    total: todos.length,
+    completed,
+    open: todos.length - completed,
+    overdue,
+    progress: todos.length > 0 ? Math.round((completed / todos.length) * 100) : 0
+  }
+}
+
+// "Area / Project" for menus that list projects flat
+export function projectLabel(project: Project, projects: Project[]): string {
+  const area = project.parent_id ? projects.find(p => p.id === project.parent_id) : undefined
+  return area ? `${area.name} / ${project.name}` : project.name
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { toCategoryOptions } from '@/lib/categories'
+import { formatQuery, parseQuery } from '@/lib/query'
+
+const categories = toCategoryOptions([])
+
+describe('parseQuery', () => {
+  it('turns fields, phrases and negations into conditions', () => {
+    const { filter, errors } = parseQuery('priority:high category:work due:<7d is:open "exact phrase" -excluded', categories)
+    expect(errors).toEqual([])
+    expect(filter).toEqual({
+      match: 'all',
+      conditions: [
+        { field: 'priority', value: 'high' },
+        { field: 'category', value: 'work' },
+        { field: 'due', value: 'next_days', days: 7 },
+        { field: 'status', value: 'open' },
+        { field: 'text', value: 'exact phrase' },
+        { field: 'text', value: 'excluded', negate: true }
+      ]
+    })
+  })
+
+  it('accepts aliases and reads #name as a tag when no category has that name', () => {
+    expect(parseQuery('p:HIGH #errand -is:done', categories).filter.conditions).toEqual([
+      { field: 'priority', value: 'high' },
+      { field: 'tag', value: 'errand' },
+      { field: 'status', value: 'completed', negate: true }
+    ])
+  })
+
+  it('reports each bad term with its place in the input', () => {
+    const { errors } = parseQuery('foo:bar due:xyz "open', categories)
+    expect(errors.map(({ start, end }) => [start, end])).toEqual([[0, 7], [8, 15], [16, 21]])
+    expect(errors[2].message).toBe('Missing closing quote')
+  })
+
+  it('holds plain words back for the fuzzy index', () => {
+    const { filter, search } = parseQuery('report p:high', categories, { fuzzy: true })
+    expect(search).toBe('report')
+    expect(filter.conditions).toEqual([{ field: 'priority', value: 'high' }])
+  })
+
+  it('formats a filter back into the query it came from', () => {
+    const query = 'priority:high tag:errand -is:done'
+    expect(formatQuery(parseQuery(query, categories).filter)).toBe(query)
+  })
+})
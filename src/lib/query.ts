@@ -0,0 +1,302 @@
+import { findCategory, type CategoryOption } from '@/lib/categories'
+import { priorities } from '@/lib/constants'
+import type { DueRange, FilterCondition, TodoFilter, TodoStatusFilter } from '@/lib/filters'
+import type { Todo } from '@/types/todo'
+
+// Search box query language, parsed into the same TodoFilter smart lists store:
+//   report "exact phrase"      title or description contains each word / the phrase
+//   -draft                     a leading "-" negates any term
+//   priority:high  p:high      priority (low, medium, high)
+//   category:work  cat:work    category, by slug or name
+//   is:open  is:done  is:in_progress  is:overdue
+//   due:today  due:week  due:overdue  due:none  due:any
+//   due:<7d                    due within the next 7 days
+//   due:<2025-06-01  due:>2025-06-01
+//   tag:errand  #errand        tag (#work names a category when one exists, as in quick add)
+// Terms always combine with AND. Quote text containing ":" to search for it literally.
+// The search box ranks plain words with the fuzzy index instead (see `fuzzy` below); quoted
+// phrases and negated words stay exact substring conditions everywhere.
+
+export interface QueryError {
+  message: string
+  // Range of the offending term in the input
+  start: number
+  end: number
+}
+
+export interface QueryTerm {
+  start: number
+  end: number
+  negate: boolean
+  // Set for field:value terms
+  field?: string
+  value: string
+  quoted: boolean
+}
+
+export interface ParsedQuery {
+  filter: TodoFilter
+  // Plain words held back from the filter when parsing with `fuzzy`
+  search: string
+  terms: QueryTerm[]
+  errors: QueryError[]
+}
+
+export interface QuerySuggestion {
+  // Replaces the term under the cursor
+  insert: string
+  label: string
+  description?: string
+}
+
+// Suggestions for the text between `start` and `end`, the term the cursor is in
+export interface Completion {
+  start: number
+  end: number
+  suggestions: QuerySuggestion[]
+}
+
+type QueryField = 'priority' | 'category' | 'due' | 'is' | 'tag'
+
+export const queryFields: { id: QueryField; description: string }[] = [
+  { id: 'priority', description: 'low, medium or high' },
+  { id: 'category', description: 'one of your categories' },
+  { id: 'due', description: 'today, week, overdue, <7d, <yyyy-mm-dd…' },
+  { id: 'is', description: 'open, done, in_progress, overdue' },
+  { id: 'tag', description: 'a tag on the task' }
+]
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  priority: 'priority', p: 'priority',
+  category: 'category', cat: 'category',
+  due: 'due',
+  is: 'is',
+  tag: 'tag'
+}
+
+const STATUS_VALUES: Record<string, TodoStatusFilter> = {
+  open: 'open',
+  done: 'completed',
+  completed: 'completed',
+  in_progress: 'in_progress',
+  started: 'in_progress'
+}
+
+const DUE_KEYWORDS: Record<string, DueRange> = {
+  today: 'today',
+  week: 'this_week',
+  overdue: 'overdue',
+  none: 'none',
+  any: 'any'
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Split the input into terms, keeping positions for errors and autocomplete
+function tokenize(input: string): { terms: QueryTerm[]; errors: QueryError[] } {
+  const terms: QueryTerm[] = []
+  const errors: QueryError[] = []
+  let i = 0
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+    const start = i
+    const negate = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])
+    if (negate) i++
+
+    let field: string | undefined
+    const fieldMatch = /^([a-z_]+):/i.exec(input.slice(i))
+    if (fieldMatch && input[i] !== '"') {
+      field = fieldMatch[1].toLowerCase()
+      i += fieldMatch[0].length
+    }
+
+    let value = ''
+    let quoted = false
+    if (input[i] === '"') {
+      quoted = true
+      const close = input.indexOf('"', i + 1)
+      if (close === -1) {
+        value = input.slice(i + 1)
+        i = input.length
+        errors.push({ message: 'Missing closing quote', start, end: i })
+      } else {
+        value = input.slice(i + 1, close)
+        i = close + 1
+      }
+    } else {
+      const valueStart = i
+      while (i < input.length && !/\s/.test(input[i])) i++
+      value = input.slice(valueStart, i)
+    }
+    terms.push({ start, end: i, negate, field, value, quoted })
+  }
+  return { terms, errors }
+}
+
+function parseDue(value: string): Omit<Extract<FilterCondition, { field: 'due' }>, 'field' | 'negate'> | string {
+  const keyword = DUE_KEYWORDS[value.toLowerCase()]
+  if (keyword) return { value: keyword }
+  const days = /^<?(\d+)d$/i.exec(value)
+  if (days) return { value: 'next_days', days: Number(days[1]) }
+  const date = /^([<>])(.+)$/.exec(value)
+  if (date && DATE_PATTERN.test(date[2]) && !Number.isNaN(Date.parse(date[2]))) {
+    return { value: date[1] === '<' ? 'before' : 'after', date: date[2] }
+  }
+  return `Can't read due:${value}. Try due:today, due:<7d or due:<2025-06-01`
+}
+
+// One term to a condition, or an error message
+function termToCondition(term: QueryTerm, categories: CategoryOption[]): FilterCondition | string {
+  const negate = term.negate || undefined
+  if (!term.field) {
+    const hash = !term.quoted && /^#([\w-]+)$/.exec(term.value)
+    if (hash) {
+      const name = hash[1].toLowerCase()
+      const category = findCategory(categories, name)
+      return category
+        ? { field: 'category', value: category.id, negate }
+        : { field: 'tag', value: name, negate }
+    }
+    return { field: 'text', value: term.value, negate }
+  }
+
+  const field = FIELD_ALIASES[term.field]
+  if (!field) return `Unknown field "${term.field}". Try ${queryFields.map(f => f.id).join(', ')}`
+  const value = term.value.trim().toLowerCase()
+  if (!value) return `${field}: needs a value`
+
+  switch (field) {
+    case 'priority': {
+      const priority = priorities.find(p => p.id === value)
+      return priority
+        ? { field: 'priority', value: priority.id as Todo['priority'], negate }
+        : `Unknown priority "${term.value}". Use low, medium or high`
+    }
+    case 'category': {
+      const category = findCategory(categories, value)
+      return category
+        ? { field: 'category', value: category.id, negate }
+        : `Unknown category "${term.value}"`
+    }
+    case 'is': {
+      if (value === 'overdue') return { field: 'due', value: 'overdue', negate }
+      const status = STATUS_VALUES[value]
+      return status ? { field: 'status', value: status, negate } : `Unknown status "${term.value}". Use open, done or in_progress`
+    }
+    case 'due': {
+      const due = parseDue(value)
+      return typeof due === 'string' ? due : { field: 'due', ...due, negate }
+    }
+    case 'tag':
+      return { field: 'tag', value, negate }
+  }
+}
+
+// Parse a query into a filter; terms with errors are left out so the rest still applies.
+// With `fuzzy`, plain words go to `search` for ranked matching rather than into the filter.
+export function parseQuery(input: string, categories: CategoryOption[], { fuzzy = false } = {}): ParsedQuery {
+  const { terms, errors } = tokenize(input)
+  const conditions: FilterCondition[] = []
+  const words: string[] = []
+  for (const term of terms) {
+    if (!term.field && !term.value.trim()) continue
+    if (fuzzy && !term.field && !term.quoted && !term.negate && !term.value.startsWith('#')) {
+      words.push(term.value)
+      continue
+    }
+    const condition = termToCondition(term, categories)
+    if (typeof condition === 'string') errors.push({ message: condition, start: term.start, end: term.end })
+    else conditions.push(condition)
+  }
+  errors.sort((a, b) => a.start - b.start)
+  return { filter: { match: 'all', conditions }, search: words.join(' '), terms, errors }
+}
+
+function formatValue(value: string): string {
+  return /[\s:"]/.test(value) || value.startsWith('-') || value.startsWith('#') ? `"${value.replace(/"/g, '')}"` : value
+}
+
+function formatCondition(condition: FilterCondition): string | undefined {
+  switch (condition.field) {
+    case 'category':
+    case 'priority':
+    case 'tag':
+      return `${condition.field}:${formatValue(condition.value)}`
+    case 'status':
+      return `is:${condition.value === 'completed' ? 'done' : condition.value}`
+    case 'text':
+      return formatValue(condition.value)
+    case 'due': {
+      const keyword = Object.keys(DUE_KEYWORDS).find(key => DUE_KEYWORDS[key] === condition.value)
+      if (keyword) return `due:${keyword}`
+      if (condition.value === 'next_days') return `due:<${condition.days ?? 7}d`
+      if (!condition.date) return undefined
+      return `due:${condition.value === 'before' ? '<' : '>'}${condition.date}`
+    }
+  }
+}
+
+// Write a filter back out as a query; "any" filters have no query form
+export function formatQuery(filter: TodoFilter): string | undefined {
+  if (filter.match === 'any' && filter.conditions.length > 1) return undefined
+  return filter.conditions
+    .map(condition => {
+      const term = formatCondition(condition)
+      return term && (condition.negate ? `-${term}` : term)
+    })
+    .filter(Boolean)
+    .join(' ')
+}
+
+// Completions for the term under the cursor: field names, then that field's values
+export function getQuerySuggestions(
+  input: string,
+  cursor: number,
+  tags: string[],
+  categories: CategoryOption[]
+): Completion | null {
+  const term = tokenize(input).terms.find(t => t.start <= cursor && cursor <= t.end)
+  if (!term || term.quoted) return null
+  const typed = input.slice(term.start, cursor)
+  const prefix = term.negate ? '-' : ''
+  const body = typed.slice(prefix.length)
+  const colon = body.indexOf(':')
+
+  let suggestions: QuerySuggestion[]
+  if (colon === -1) {
+    if (!body) return null
+    suggestions = queryFields
+      .filter(field => field.id.startsWith(body.toLowerCase()))
+      .map(field => ({ insert: `${prefix}${field.id}:`, label: `${field.id}:`, description: field.description }))
+  } else {
+    const field = FIELD_ALIASES[body.slice(0, colon).toLowerCase()]
+    const partial = body.slice(colon + 1).toLowerCase()
+    const values: { value: string; description?: string }[] = !field ? [] : {
+      priority: priorities.map(p => ({ value: p.id })),
+      category: categories.filter(cat => !cat.archived).map(cat => ({ value: cat.id, description: cat.name })),
+      is: [{ value: 'open' }, { value: 'done' }, { value: 'in_progress' }, { value: 'overdue' }],
+      due: [
+        { value: 'today' },
+        { value: 'week', description: 'this week' },
+        { value: 'overdue' },
+        { value: '<7d', description: 'in the next 7 days' },
+        { value: '<30d', description: 'in the next 30 days' },
+        { value: 'none', description: 'no due date' },
+        { value: 'any', description: 'has a due date' }
+      ],
+      tag: tags.map(tag => ({ value: tag }))
+    }[field]
+    suggestions = values
+      .filter(({ value }) => value.startsWith(partial) && value !== partial)
+      .map(({ value, description }) => ({
+        insert: `${prefix}${body.slice(0, colon + 1)}${value} `,
+        label: `${body.slice(0, colon + 1)}${value}`,
+        description
+      }))
+  }
+  return suggestions.length > 0 ? { start: term.start, end: term.end, suggestions } : null
+}
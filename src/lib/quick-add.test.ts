@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { toCategoryOptions } from '@/lib/categories'
+import { parseQuickAdd } from '@/lib/quick-add'
+
+const categories = toCategoryOptions([])
+// Monday 19 October 2026, 10:00 and 22:00 local time
+const morning = new Date(2026, 9, 19, 10, 0)
+const night = new Date(2026, 9, 19, 22, 0)
+
+const due = (input: string, now = morning) => parseQuickAdd(input, categories, now).dueDate
+
+describe('parseQuickAdd', () => {
+  it('pulls dates, times, priority, category and tags out of the title', () => {
+    const result = parseQuickAdd('Call dentist tomorrow 3pm !high #health @phone', categories, morning)
+    expect(result.title).toBe('Call dentist')
+    expect(result.dueDate).toBe(new Date(2026, 9, 20, 15, 0).toISOString())
+    expect(result.priority).toBe('high')
+    expect(result.category).toBe('health')
+    expect(result.tags).toEqual(['phone'])
+  })
+
+  it('leaves numbers and abbreviations that are not dates in the title', () => {
+    expect(parseQuickAdd('Buy 3 apples', categories, morning)).toMatchObject({ title: 'Buy 3 apples', dueDate: undefined })
+    expect(parseQuickAdd('Sun cream', categories, morning)).toMatchObject({ title: 'Sun cream', dueDate: undefined })
+  })
+
+  it('reads a recurrence', () => {
+    expect(parseQuickAdd('standup every weekday', categories, morning).recurrence).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')
+  })
+
+  it('reads a bare hour as office hours', () => {
+    expect(due('call at 3', morning)).toBe(new Date(2026, 9, 19, 15, 0).toISOString())
+    expect(due('call at 11', morning)).toBe(new Date(2026, 9, 19, 11, 0).toISOString())
+  })
+
+  it('reads hours as pm tonight or this evening', () => {
+    expect(due('call mom at 9 tonight')).toBe(new Date(2026, 9, 19, 21, 0).toISOString())
+    expect(due('tonight at 9:30 read')).toBe(new Date(2026, 9, 19, 21, 30).toISOString())
+    expect(due('this evening at 8 gym')).toBe(new Date(2026, 9, 19, 20, 0).toISOString())
+    expect(parseQuickAdd('call mom at 9 tonight', categories, morning).tokens.map(token => token.label)).toEqual(['9pm', 'Today'])
+  })
+
+  it('moves a time without a date that has passed to tomorrow', () => {
+    expect(due('at 9 call', morning)).toBe(new Date(2026, 9, 20, 9, 0).toISOString())
+  })
+
+  it('keeps a typed date even when its time has passed', () => {
+    expect(due('Call mom today 9am', night)).toBe(new Date(2026, 9, 19, 9, 0).toISOString())
+    expect(due('Report 2026-03-01 3pm', night)).toBe(new Date(2026, 2, 1, 15, 0).toISOString())
+  })
+})
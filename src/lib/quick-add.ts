@@ -0,0 +1,377 @@
+import { addDays, addMonths, addWeeks, isValid, nextDay, startOfDay, type Day } from 'date-fns'
+import { findCategory, type CategoryOption } from '@/lib/categories'
+import { priorities } from '@/lib/constants'
+import type { Completion } from '@/lib/query'
+import { serializeRecurrence, type Recurrence } from '@/lib/recurrence'
+import type { Todo } from '@/types/todo'
+
+export type QuickAddTokenKind = 'date' | 'time' | 'priority' | 'category' | 'tag' | 'recurrence'
+
+export interface QuickAddToken {
+  kind: QuickAddTokenKind
+  // The words consumed from the input, as typed
+  text: string
+  // Normalized value shown on the chip
+  label: string
+}
+
+export interface QuickAddResult {
+  title: string
+  dueDate?: string
+  priority?: Todo['priority']
+  category?: Todo['category']
+  tags: string[]
+  recurrence?: string
+  tokens: QuickAddToken[]
+}
+
+const WEEKDAYS: Record<string, Day> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6
+}
+
+const MONTHS: Record<string, number> = {
+  january: 0, jan: 0, february: 1, feb: 1, march: 2, mar: 2, april: 3, apr: 3,
+  may: 4, june: 5, jun: 5, july: 6, jul: 6, august: 7, aug: 7,
+  september: 8, sep: 8, sept: 8, october: 9, oct: 9, november: 10, nov: 10, december: 11, dec: 11
+}
+
+const PRIORITY_ALIASES: Record<string, Todo['priority']> = {
+  high: 'high', h: 'high', urgent: 'high', '1': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '2': 'medium',
+  low: 'low', l: 'low', '3': 'low'
+}
+
+// Words that only introduce a date and should disappear with it ("by friday", "on sat")
+const DATE_PREFIXES = new Set(['on', 'by', 'due'])
+
+const normalize = (word: string) => word.toLowerCase().replace(/[.,;:!?]+$/, '')
+
+// A full weekday name on its own is a date; abbreviations ("sat", "wed") need a lead-in word
+// so titles like "Wed anniversary" or "Sun cream" survive
+function matchWeekday(word: string, hasLeadIn: boolean): Day | undefined {
+  const day = WEEKDAYS[word]
+  if (day === undefined) return undefined
+  return hasLeadIn || word.length > 4 ? day : undefined
+}
+
+interface Match {
+  consumed: number
+  apply: (draft: Draft) => void
+  token: Omit<QuickAddToken, 'text'>
+}
+
+interface Draft {
+  date?: Date
+  time?: { hours: number; minutes: number }
+  recurrence?: string
+}
+
+// Try to read a date starting at words[i]
+function matchDate(words: string[], i: number, now: Date): Match | null {
+  const today = startOfDay(now)
+  const w0 = normalize(words[i] ?? '')
+  const w1 = normalize(words[i + 1] ?? '')
+  const w2 = normalize(words[i + 2] ?? '')
+  const date = (value: Date, consumed: number, label: string): Match => ({
+    consumed,
+    apply: draft => { draft.date = value },
+    token: { kind: 'date', label }
+  })
+
+  if (w0 === 'today' || w0 === 'tonight') return date(today, 1, 'Today')
+  if (w0 === 'this' && w1 === 'evening') return date(today, 2, 'Today')
+  if (w0 === 'tomorrow' || w0 === 'tmr' || w0 === 'tmrw') return date(addDays(today, 1), 1, 'Tomorrow')
+
+  if (w0 === 'next' && w1 === 'week') return date(nextDay(today, 1), 2, 'Next week')
+  if (w0 === 'next' && w1 === 'month') return date(addMonths(today, 1), 2, 'Next month')
+
+  // "in 3 days", "in 2 weeks", "in a month"
+  if (w0 === 'in') {
+    const amount = w1 === 'a' || w1 === 'an' ? 1 : Number(w1)
+    if (Number.isInteger(amount) && amount > 0) {
+      if (/^days?$/.test(w2)) return date(addDays(today, amount), 3, `In ${amount} day${amount > 1 ? 's' : ''}`)
+      if (/^weeks?$/.test(w2)) return date(addWeeks(today, amount), 3, `In ${amount} week${amount > 1 ? 's' : ''}`)
+      if (/^months?$/.test(w2)) return date(addMonths(today, amount), 3, `In ${amount} month${amount > 1 ? 's' : ''}`)
+    }
+  }
+
+  // "friday", "next friday", "this fri"
+  if (w0 === 'next' || w0 === 'this') {
+    const day = matchWeekday(w1, true)
+    // Both mean the upcoming one; nextDay never returns today
+    if (day !== undefined) return date(nextDay(today, day), 2, `${capitalize(w0)} ${capitalize(w1)}`)
+  }
+  const weekday = matchWeekday(w0, i > 0 && DATE_PREFIXES.has(normalize(words[i - 1])))
+  if (weekday !== undefined) return date(nextDay(today, weekday), 1, capitalize(w0))
+
+  // "jan 5", "january 5th", "5 jan"
+  const dayOfMonth = (word: string) => {
+    const match = /^(\d{1,2})(st|nd|rd|th)?$/.exec(word)
+    return match ? Number(match[1]) : undefined
+  }
+  const monthFirst = MONTHS[w0] !== undefined ? dayOfMonth(w1) : undefined
+  if (monthFirst !== undefined) {
+    const value = upcomingDate(today, MONTHS[w0], monthFirst)
+    if (value) return date(value, 2, `${capitalize(w0)} ${monthFirst}`)
+  }
+  const dayFirst = dayOfMonth(w0)
+  if (dayFirst !== undefined && MONTHS[w1] !== undefined) {
+    const value = upcomingDate(today, MONTHS[w1], dayFirst)
+    if (value) return date(value, 2, `${capitalize(w1)} ${dayFirst}`)
+  }
+
+  // "2026-03-01"
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(w0)
+  if (iso) {
+    const value = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+    if (isValid(value) && value.getDate() === Number(iso[3])) return date(value, 1, w0)
+  }
+
+  // "3/15" (month/day)
+  const slash = /^(\d{1,2})\/(\d{1,2})$/.exec(w0)
+  if (slash) {
+    const value = upcomingDate(today, Number(slash[1]) - 1, Number(slash[2]))
+    if (value) return date(value, 1, w0)
+  }
+
+  return null
+}
+
+// Try to read a time of day starting at words[i]: "3pm", "3:30 pm", "15:00", "at 9", "noon".
+// In the `evening`, a time without am/pm before noon is read as pm ("at 9 tonight" is 21:00).
+function matchTime(words: string[], i: number, evening: boolean): Match | null {
+  const hasAt = normalize(words[i] ?? '') === 'at'
+  const start = hasAt ? i + 1 : i
+  const w0 = normalize(words[start] ?? '')
+  const w1 = normalize(words[start + 1] ?? '')
+  const time = (hours: number, minutes: number, consumed: number): Match => ({
+    consumed: consumed + (hasAt ? 1 : 0),
+    apply: draft => { draft.time = { hours, minutes } },
+    token: { kind: 'time', label: formatTime(hours, minutes) }
+  })
+
+  if (w0 === 'noon') return time(12, 0, 1)
+  if (w0 === 'midnight') return time(0, 0, 1)
+
+  const meridiem = /^(\d{1,2})(?::(\d{2}))?(am|pm)$/.exec(w0)
+  if (meridiem) return to24h(meridiem[1], meridiem[2], meridiem[3], 1, time)
+
+  const spaced = /^(\d{1,2})(?::(\d{2}))?$/.exec(w0)
+  if (spaced && (w1 === 'am' || w1 === 'pm')) return to24h(spaced[1], spaced[2], w1, 2, time)
+
+  const clock = /^(\d{1,2}):(\d{2})$/.exec(w0)
+  if (clock) {
+    const hours = Number(clock[1])
+    const minutes = Number(clock[2])
+    if (hours < 24 && minutes < 60) return time(evening && hours < 12 ? hours + 12 : hours, minutes, 1)
+  }
+
+  // A bare hour only counts after "at" ("at 9"); "buy 3 apples" is not a time
+  if (hasAt && /^\d{1,2}$/.test(w0) && Number(w0) >= 1 && Number(w0) <= 12) {
+    // Office-hours guess: "at 3" means 3pm, "at 9" means 9am
+    const hours = Number(w0)
+    return time(hours < 7 || (evening && hours < 12) ? hours + 12 : hours, 0, 1)
+  }
+
+  return null
+}
+
+// "every day", "every weekday", "every monday", "daily", "weekly"
+function matchRecurrence(words: string[], i: number, now: Date): Match | null {
+  const w0 = normalize(words[i] ?? '')
+  const w1 = normalize(words[i + 1] ?? '')
+  const recurrence = (rule: Recurrence, consumed: number, label: string): Match => ({
+    consumed,
+    apply: draft => { draft.recurrence = serializeRecurrence(rule) },
+    token: { kind: 'recurrence', label }
+  })
+
+  if (w0 === 'daily' || (w0 === 'every' && w1 === 'day')) return recurrence({ type: 'daily' }, w0 === 'daily' ? 1 : 2, 'Daily')
+  if (w0 === 'every' && (w1 === 'weekday' || w1 === 'weekdays')) return recurrence({ type: 'weekdays' }, 2, 'Weekdays')
+  if (w0 === 'weekly') return recurrence({ type: 'weekly', days: [now.getDay()] }, 1, 'Weekly')
+  if (w0 === 'every' && w1 === 'week') return recurrence({ type: 'weekly', days: [now.getDay()] }, 2, 'Weekly')
+  if (w0 === 'monthly' || (w0 === 'every' && w1 === 'month')) {
+    return recurrence({ type: 'monthly', day: now.getDate() }, w0 === 'monthly' ? 1 : 2, 'Monthly')
+  }
+  if (w0 === 'every') {
+    const day = matchWeekday(w1, true)
+    if (day !== undefined) return recurrence({ type: 'weekly', days: [day] }, 2, `Every ${capitalize(w1)}`)
+  }
+  return null
+}
+
+// Parse quick-add input such as "Call dentist tomorrow 3pm !high #health @phone".
+// Deterministic for a given `now`: the same text always yields the same result, so the chips
+// shown while typing match what gets saved.
+//   !high !med !low !1 !2 !3   priority
+//   #work #health ...          category when it names one of `categories`, otherwise a tag
+//   @phone                     tag
+//   today, tonight, fri, next week, in 3 days, jan 5, 3/15, 2026-03-01, 3pm, at 9, noon
+//   every day, every weekday, every monday, monthly
+export function parseQuickAdd(input: string, categories: CategoryOption[], now: Date = new Date()): QuickAddResult {
+  const words = input.trim().split(/\s+/).filter(Boolean)
+  const titleWords: string[] = []
+  const tokens: QuickAddToken[] = []
+  const tags: string[] = []
+  const draft: Draft = {}
+  let priority: Todo['priority'] | undefined
+  let category: Todo['category'] | undefined
+  // Known up front so a time typed before "tonight" is read the same as one typed after it
+  const evening = words.some((word, index) =>
+    normalize(word) === 'tonight' || (normalize(word) === 'this' && normalize(words[index + 1] ?? '') === 'evening'))
+
+  let i = 0
+  while (i < words.length) {
+    const word = words[i]
+
+    const priorityMatch = /^!(\w+)$/.exec(word)
+    if (priorityMatch && !priority && PRIORITY_ALIASES[priorityMatch[1].toLowerCase()]) {
+      priority = PRIORITY_ALIASES[priorityMatch[1].toLowerCase()]
+      tokens.push({ kind: 'priority', text: word, label: priorities.find(p => p.id === priority)?.name ?? priority })
+      i++
+      continue
+    }
+
+    const hashMatch = /^#([\w-]+)$/.exec(word)
+    if (hashMatch) {
+      const name = hashMatch[1].toLowerCase()
+      const matched = findCategory(categories, name)
+      if (matched && !category) {
+        category = matched.id
+        tokens.push({ kind: 'category', text: word, label: matched.name })
+      } else if (!tags.includes(name)) {
+        tags.push(name)
+        tokens.push({ kind: 'tag', text: word, label: name })
+      }
+      i++
+      continue
+    }
+
+    const tagMatch = /^@([\w-]+)$/.exec(word)
+    if (tagMatch) {
+      const name = tagMatch[1].toLowerCase()
+      if (!tags.includes(name)) {
+        tags.push(name)
+        tokens.push({ kind: 'tag', text: word, label: name })
+      }
+      i++
+      continue
+    }
+
+    // A lead-in word ("by", "on", "due") is consumed together with the date that follows it
+    const leadIn = DATE_PREFIXES.has(normalize(word)) ? 1 : 0
+
+    const recurrenceMatch = !draft.recurrence && !leadIn ? matchRecurrence(words, i, now) : null
+    if (recurrenceMatch) {
+      recurrenceMatch.apply(draft)
+      tokens.push({ ...recurrenceMatch.token, text: words.slice(i, i + recurrenceMatch.consumed).join(' ') })
+      i += recurrenceMatch.consumed
+      continue
+    }
+
+    const dateMatch = !draft.date ? matchDate(words, i + leadIn, now) : null
+    if (dateMatch) {
+      dateMatch.apply(draft)
+      const consumed = dateMatch.consumed + leadIn
+      tokens.push({ ...dateMatch.token, text: words.slice(i, i + consumed).join(' ') })
+      i += consumed
+      continue
+    }
+
+    const timeMatch = !draft.time ? matchTime(words, i, evening) : null
+    if (timeMatch) {
+      timeMatch.apply(draft)
+      tokens.push({ ...timeMatch.token, text: words.slice(i, i + timeMatch.consumed).join(' ') })
+      i += timeMatch.consumed
+      continue
+    }
+
+    titleWords.push(word)
+    i++
+  }
+
+  return {
+    title: titleWords.join(' '),
+    dueDate: resolveDueDate(draft, now),
+    priority,
+    category,
+    tags,
+    recurrence: draft.recurrence,
+    tokens
+  }
+}
+
+// A time without a date means the next time that clock time comes around; a typed date is kept
+function resolveDueDate({ date, time }: Draft, now: Date): string | undefined {
+  if (!date && !time) return undefined
+  const due = new Date(date ?? startOfDay(now))
+  if (time) {
+    due.setHours(time.hours, time.minutes, 0, 0)
+    if (!date && due <= now) return addDays(due, 1).toISOString()
+  }
+  return due.toISOString()
+}
+
+// The next `month`/`day` on or after today, rolling into next year once this year's has passed
+function upcomingDate(today: Date, month: number, day: number): Date | undefined {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return undefined
+  for (const year of [today.getFullYear(), today.getFullYear() + 1]) {
+    const candidate = new Date(year, month, day)
+    if (candidate.getMonth() !== month) return undefined
+    if (candidate >= today) return candidate
+  }
+  return undefined
+}
+
+function to24h(
+  hourText: string,
+  minuteText: string | undefined,
+  meridiem: string,
+  consumed: number,
+  time: (hours: number, minutes: number, consumed: number) => Match
+): Match | null {
+  const hours = Number(hourText)
+  const minutes = Number(minuteText ?? 0)
+  if (hours < 1 || hours > 12 || minutes > 59) return null
+  return time((hours % 12) + (meridiem === 'pm' ? 12 : 0), minutes, consumed)
+}
+
+function formatTime(hours: number, minutes: number): string {
+  const suffix = hours < 12 ? 'am' : 'pm'
+  const hour = hours % 12 === 0 ? 12 : hours % 12
+  return minutes === 0 ? `${hour}${suffix}` : `${hour}:${String(minutes).padStart(2, '0')}${suffix}`
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1)
+}
+
+// Completions for the #category/#tag or @tag word under the cursor
+export function getQuickAddSuggestions(
+  input: string,
+  cursor: number,
+  tags: string[],
+  categories: CategoryOption[]
+): Completion | null {
+  const start = input.slice(0, cursor).search(/\S+$/)
+  if (start === -1) return null
+  const end = start + (/^\S*/.exec(input.slice(start))?.[0].length ?? 0)
+  const match = /^([#@])([\w-]*)$/.exec(input.slice(start, cursor))
+  if (!match) return null
+  const [, sigil, typed] = match
+  const prefix = typed.toLowerCase()
+
+  const names = sigil === '#'
+    ? [...categories.map(cat => ({ name: cat.id, description: 'category' })), ...tags.map(tag => ({ name: tag, description: 'tag' }))]
+    : tags.map(tag => ({ name: tag, description: 'tag' }))
+  const suggestions = names
+    .filter(({ name }, index) => name.startsWith(prefix) && name !== prefix && names.findIndex(other => other.name === name) === index)
+    .map(({ name, description }) => ({ insert: `${sigil}${name} `, label: `${sigil}${name}`, description }))
+  return suggestions.length > 0 ? { start, end, suggestions } : null
+}
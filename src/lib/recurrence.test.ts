@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { describeRecurrence, getNextOccurrence, parseRecurrence, serializeRecurrence } from '@/lib/recurrence'
+
+const at = (year: number, month: number, day: number, hours = 9) => new Date(year, month - 1, day, hours).toISOString()
+
+describe('parseRecurrence', () => {
+  it('round-trips every rule type', () => {
+    for (const rule of ['FREQ=DAILY', 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', 'FREQ=WEEKLY;BYDAY=MO,TH', 'FREQ=MONTHLY;BYMONTHDAY=31', 'FREQ=DAILY;INTERVAL=3;FROM=COMPLETION']) {
+      expect(serializeRecurrence(parseRecurrence(rule))).toBe(rule)
+    }
+  })
+
+  it('reads Monday to Friday as weekdays', () => {
+    expect(parseRecurrence('FREQ=WEEKLY;BYDAY=FR,MO,TU,WE,TH')).toEqual({ type: 'weekdays' })
+    expect(describeRecurrence({ type: 'weekly', days: [1, 4] })).toBe('Weekly on Mon, Thu')
+  })
+
+  it('rejects rules it cannot run', () => {
+    expect(parseRecurrence('FREQ=WEEKLY;BYDAY=')).toBeNull()
+    expect(parseRecurrence('FREQ=MONTHLY;BYMONTHDAY=32')).toBeNull()
+    expect(parseRecurrence('FREQ=YEARLY')).toBeNull()
+  })
+})
+
+describe('getNextOccurrence', () => {
+  it('skips the weekend for weekdays and keeps the time of day', () => {
+    // Friday 23 October 2026
+    expect(getNextOccurrence({ type: 'weekdays' }, at(2026, 10, 23), new Date(2026, 9, 23, 12))).toBe(at(2026, 10, 26))
+  })
+
+  it('picks the next listed weekday', () => {
+    // Monday -> Wednesday
+    expect(getNextOccurrence({ type: 'weekly', days: [1, 3] }, at(2026, 10, 19), new Date(2026, 9, 19, 12))).toBe(at(2026, 10, 21))
+  })
+
+  it('clamps a monthly day to short months', () => {
+    expect(getNextOccurrence({ type: 'monthly', day: 31 }, at(2026, 1, 31), new Date(2026, 0, 31, 12))).toBe(at(2026, 2, 28))
+  })
+
+  it('never lands on or before the completion day for an overdue todo', () => {
+    expect(getNextOccurrence({ type: 'daily' }, at(2026, 10, 1), new Date(2026, 9, 19, 12))).toBe(at(2026, 10, 20))
+  })
+
+  it('counts days after completion from the completion day', () => {
+    expect(getNextOccurrence({ type: 'after_completion', interval: 3 }, at(2026, 10, 1), new Date(2026, 9, 19, 12))).toBe(at(2026, 10, 22))
+  })
+})
@@ -0,0 +1,159 @@
+import { addDays, addMonths, getDaysInMonth, isWeekend, max, setDate, startOfDay } from 'date-fns'
+import { parseDueDate } from '@/lib/due-date'
+
+// Recurrence rules are stored on the todo as a small RRULE-style string, e.g.
+//   FREQ=DAILY
+//   FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR
+//   FREQ=MONTHLY;BYMONTHDAY=15
+//   FREQ=DAILY;INTERVAL=3;FROM=COMPLETION
+export type Recurrence =
+  | { type: 'daily' }
+  | { type: 'weekdays' }
+  | { type: 'weekly'; days: number[] }
+  | { type: 'monthly'; day: number }
+  | { type: 'after_completion'; interval: number }
+
+export type RecurrenceType = Recurrence['type']
+
+export const recurrenceTypes: { id: RecurrenceType; name: string }[] = [
+  { id: 'daily', name: 'Every day' },
+  { id: 'weekdays', name: 'Every weekday' },
+  { id: 'weekly', name: 'Weekly on…' },
+  { id: 'monthly', name: 'Monthly on day…' },
+  { id: 'after_completion', name: 'Days after completion' }
+]
+
+// Indexed like Date#getDay: 0 is Sunday
+export const weekdayCodes = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+export const weekdayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const WORKWEEK = [1, 2, 3, 4, 5]
+
+export function parseRecurrence(value?: string | null): Recurrence | null {
+  if (!value) return null
+  const parts = new Map(
+    value.split(';').map(part => {
+      const [key, val = ''] = part.split('=')
+      return [key.trim().toUpperCase(), val.trim().toUpperCase()] as const
+    })
+  )
+  const interval = Number(parts.get('INTERVAL') ?? 1)
+
+  switch (parts.get('FREQ')) {
+    case 'DAILY':
+      if (parts.get('FROM') === 'COMPLETION') {
+        return Number.isInteger(interval) && interval > 0 ? { type: 'after_completion', interval } : null
+      }
+      return { type: 'daily' }
+    case 'WEEKLY': {
+      const days = (parts.get('BYDAY') ?? '')
+        .split(',')
+        .map(code => weekdayCodes.indexOf(code))
+        .filter(day => day >= 0)
+        .sort((a, b) => a - b)
+      if (days.length === 0) return null
+      if (days.join(',') === WORKWEEK.join(',')) return { type: 'weekdays' }
+      return { type: 'weekly', days }
+    }
+    case 'MONTHLY': {
+      const day = Number(parts.get('BYMONTHDAY'))
+      return Number.isInteger(day) && day >= 1 && day <= 31 ? { type: 'monthly', day } : null
+    }
+    default:
+      return null
+  }
+}
+
+export function serializeRecurrence(recurrence: Recurrence | null): string | undefined {
+  if (!recurrence) return undefined
+  switch (recurrence.type) {
+    case 'daily':
+      return 'FREQ=DAILY'
+    case 'weekdays':
+      return `FREQ=WEEKLY;BYDAY=${WORKWEEK.map(day => weekdayCodes[day]).join(',')}`
+    case 'weekly':
+      return `FREQ=WEEKLY;BYDAY=${[...recurrence.days].sort((a, b) => a - b).map(day => weekdayCodes[day]).join(',')}`
+    case 'monthly':
+      return `FREQ=MONTHLY;BYMONTHDAY=${recurrence.day}`
+    case 'after_completion':
+      return `FREQ=DAILY;INTERVAL=${recurrence.interval};FROM=COMPLETION`
+  }
+}
+
+export function describeRecurrence(recurrence: Recurrence): string {
+  switch (recurrence.type) {
+    case 'daily':
+      return 'Daily'
+    case 'weekdays':
+      return 'Weekdays'
+    case 'weekly':
+      return recurrence.days.length === 7
+        ? 'Daily'
+        : `Weekly on ${recurrence.days.map(day => weekdayNames[day]).join(', ')}`
+    case 'monthly':
+      return `Monthly on day ${recurrence.day}`
+    case 'after_completion':
+      return recurrence.interval === 1
+        ? '1 day after completion'
+        : `${recurrence.interval} days after completion`
+  }
+}
+
+// Default rule for a type, seeded from the todo's due date (or today)
+export function defaultRecurrence(type: RecurrenceType, dueDate?: string): Recurrence {
+  const seed = parseDueDate(dueDate) ?? new Date()
+  switch (type) {
+    case 'daily':
+      return { type: 'daily' }
+    case 'weekdays':
+      return { type: 'weekdays' }
+    case 'weekly':
+      return { type: 'weekly', days: [seed.getDay()] }
+    case 'monthly':
+      return { type: 'monthly', day: seed.getDate() }
+    case 'after_completion':
+      return { type: 'after_completion', interval: 7 }
+  }
+}
+
+// Day `day` of the month containing `date`, clamped for short months (31st -> 30th, 28th, ...)
+function clampedMonthDay(date: Date, day: number): Date {
+  return setDate(date, Math.min(day, getDaysInMonth(date)))
+}
+
+// Next due date after completing an occurrence. Calendar rules advance from the current due
+// date but never land on or before the completion day, so finishing an overdue task does not
+// spawn another overdue one. The time of day from the current due date is kept.
+export function getNextOccurrence(recurrence: Recurrence, dueDate: string | undefined, completedAt: Date = new Date()): string {
+  const due = parseDueDate(dueDate)
+  const timeSource = due ?? startOfDay(completedAt)
+  const withTime = (day: Date) => {
+    const next = startOfDay(day)
+    next.setHours(timeSource.getHours(), timeSource.getMinutes(), 0, 0)
+    return next.toISOString()
+  }
+
+  if (recurrence.type === 'after_completion') {
+    return withTime(addDays(completedAt, recurrence.interval))
+  }
+
+  const anchor = startOfDay(due ? max([due, completedAt]) : completedAt)
+
+  if (recurrence.type === 'monthly') {
+    let candidate = clampedMonthDay(anchor, recurrence.day)
+    if (candidate <= anchor) candidate = clampedMonthDay(addMonths(setDate(anchor, 1), 1), recurrence.day)
+    return withTime(candidate)
+  }
+
+  const matches = (day: Date) => {
+    if (recurrence.type === 'daily') return true
+    if (recurrence.type === 'weekdays') return !isWeekend(day)
+    return recurrence.days.includes(day.getDay())
+  }
+  let candidate = addDays(anchor, 1)
+  // At most a week away for any non-empty weekday set
+  for (let i = 0; i < 7 && !matches(candidate); i++) {
+    candidate = addDays(candidate, 1)
+  }
+  return withTime(candidate)
+}
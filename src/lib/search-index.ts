@@ -0,0 +1,194 @@
+import type { Todo } from '@/types/todo'
+
+// In-memory inverted index over todo titles, descriptions and tags. `sync` only re-indexes
+// todos whose text changed, so keeping it current with thousands of todos costs next to nothing.
+// Query words match indexed words exactly, as a prefix, or within a small edit distance.
+
+type SearchField = 'title' | 'tags' | 'description'
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, tags: 2, description: 1 }
+
+// How much a looser match is worth next to an exact one
+const PREFIX_MATCH = 0.7
+const FUZZY_MATCH = 0.5
+
+interface IndexedDoc {
+  // Indexed text, compared to tell whether a todo needs re-indexing
+  text: string
+  // Best field weight per word in this doc
+  words: Map<string, number>
+}
+
+export interface SearchResult {
+  // Relevance per matching todo id; todos that don't match every query word are left out
+  scores: Map<string, number>
+  // Indexed words that matched, for highlighting
+  matched: Set<string>
+}
+
+export interface SearchIndex {
+  // `tags` maps todo ids to their tag names
+  sync: (todos: Todo[], tags: Map<string, string[]>) => void
+  search: (query: string) => SearchResult
+}
+
+export interface TextSegment {
+  text: string
+  match: boolean
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+export function normalizeWord(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+export function tokenizeText(text: string): string[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => normalizeWord(match[0]))
+}
+
+// Edit distance (with adjacent swaps), giving up as soon as it must exceed `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous2: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1)
+      }
+      current[j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    previous2 = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Short words must match exactly or as a prefix; longer ones tolerate one or two typos
+function allowedTypos(word: string): number {
+  return word.length < 4 ? 0 : word.length < 8 ? 1 : 2
+}
+
+function indexedText(todo: Todo, tags: string[]): string {
+  return [todo.title, todo.description ?? '', tags.join(',')].join('\u0000')
+}
+
+export function createSearchIndex(): SearchIndex {
+  const docs = new Map<string, IndexedDoc>()
+  // word -> todo id -> field weight
+  const postings = new Map<string, Map<string, number>>()
+
+  const removeDoc = (id: string) => {
+    const doc = docs.get(id)
+    if (!doc) return
+    for (const word of doc.words.keys()) {
+      const posting = postings.get(word)
+      posting?.delete(id)
+      if (posting?.size === 0) postings.delete(word)
+    }
+    docs.delete(id)
+  }
+
+  const addDoc = (todo: Todo, tags: string[], text: string) => {
+    const words = new Map<string, number>()
+    const add = (field: SearchField, values: string[]) => {
+      for (const word of values) words.set(word, Math.max(words.get(word) ?? 0, FIELD_WEIGHTS[field]))
+    }
+    add('title', tokenizeText(todo.title))
+    add('tags', tags.flatMap(tokenizeText))
+    add('description', tokenizeText(todo.description ?? ''))
+
+    for (const [word, weight] of words) {
+      let posting = postings.get(word)
+      if (!posting) postings.set(word, posting = new Map())
+      posting.set(todo.id, weight)
+    }
+    docs.set(todo.id, { text, words })
+  }
+
+  const sync = (todos: Todo[], tags: Map<string, string[]>) => {
+    const seen = new Set<string>()
+    for (const todo of todos) {
+      seen.add(todo.id)
+      const todoTags = tags.get(todo.id) ?? []
+      const text = indexedText(todo, todoTags)
+      if (docs.get(todo.id)?.text === text) continue
+      removeDoc(todo.id)
+      addDoc(todo, todoTags, text)
+    }
+    for (const id of Array.from(docs.keys())) {
+      if (!seen.has(id)) removeDoc(id)
+    }
+  }
+
+  // Indexed words close enough to a query word, with how good each match is
+  const expand = (queryWord: string): Map<string, number> => {
+    const matches = new Map<string, number>()
+    const typos = allowedTypos(queryWord)
+    for (const word of postings.keys()) {
+      if (word === queryWord) {
+        matches.set(word, 1)
+      } else if (word.startsWith(queryWord)) {
+        matches.set(word, PREFIX_MATCH)
+      } else if (typos > 0) {
+        const distance = editDistance(queryWord, word, typos)
+        if (distance <= typos) matches.set(word, FUZZY_MATCH / distance)
+      }
+    }
+    return matches
+  }
+
+  const search = (query: string): SearchResult => {
+    const queryWords = Array.from(new Set(tokenizeText(query)))
+    const matched = new Set<string>()
+    let scores: Map<string, number> | undefined
+
+    for (const queryWord of queryWords) {
+      // Best match per todo for this query word
+      const wordScores = new Map<string, number>()
+      for (const [word, quality] of expand(queryWord)) {
+        const posting = postings.get(word)!
+        // Rare words say more about a todo than ones found everywhere
+        const idf = Math.log(1 + docs.size / posting.size)
+        for (const [id, weight] of posting) {
+          wordScores.set(id, Math.max(wordScores.get(id) ?? 0, quality * weight * idf))
+        }
+        matched.add(word)
+      }
+
+      const next = new Map<string, number>()
+      for (const [id, score] of wordScores) {
+        if (!scores) next.set(id, score)
+        else if (scores.has(id)) next.set(id, scores.get(id)! + score)
+      }
+      scores = next
+      if (scores.size === 0) break
+    }
+    return { scores: scores ?? new Map(), matched }
+  }
+
+  return { sync, search }
+}
+
+// Split text into plain and matched runs for highlighting
+export function highlightSegments(text: string, matched: Set<string>): TextSegment[] {
+  if (matched.size === 0) return [{ text, match: false }]
+  const segments: TextSegment[] = []
+  let last = 0
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (!matched.has(normalizeWord(match[0]))) continue
+    const start = match.index ?? 0
+    if (start > last) segments.push({ text: text.slice(last, start), match: false })
+    segments.push({ text: match[0], match: true })
+    last = start + match[0].length
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false })
+  return segments
+}
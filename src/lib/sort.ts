@@ -0,0 +1,41 @@
+import { comparePositions } from '@/lib/position'
+import type { Todo } from '@/types/todo'
+
+export type TodoSort = 'manual' | 'created' | 'due' | 'priority'
+
+export const todoSorts: { id: TodoSort; name: string }[] = [
+  { id: 'manual', name: 'Manual' },
+  { id: 'created', name: 'Newest first' },
+  { id: 'due', name: 'Due date' },
+  { id: 'priority', name: 'Priority' }
+]
+
+const priorityRank: Record<Todo['priority'], number> = { high: 0, medium: 1, low: 2 }
+
+const byCreated = (a: Todo, b: Todo) => (b.created_at ?? '').localeCompare(a.created_at ?? '')
+
+// Undated todos go last
+const byDue = (a: Todo, b: Todo) => {
+  if (a.due_date && b.due_date) return a.due_date.localeCompare(b.due_date)
+  return a.due_date ? -1 : b.due_date ? 1 : 0
+}
+
+// Todos without a position (made before manual ordering existed) sit on top, newest first
+const byPosition = (a: Todo, b: Todo) => {
+  if (!a.position || !b.position) return a.position ? 1 : b.position ? -1 : byCreated(a, b)
+  return comparePositions(a.position, b.position) || byCreated(a, b)
+}
+
+export function sortTodos(todos: Todo[], sort: TodoSort): Todo[] {
+  const compare = {
+    manual: byPosition,
+    created: byCreated,
+    due: (a: Todo, b: Todo) => byDue(a, b) || priorityRank[a.priority] - priorityRank[b.priority] || byCreated(a, b),
+    priority: (a: Todo, b: Todo) => priorityRank[a.priority] - priorityRank[b.priority] || byDue(a, b) || byCreated(a, b)
+  }[sort]
+  return [...todos].sort(compare)
+}
+
+export function isTodoSort(value: unknown): value is TodoSort {
+  return todoSorts.some(sort => sort.id === value)
+}
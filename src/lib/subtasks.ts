@@ -0,0 +1,26 @@
+import type { Subtask, Todo } from '@/types/todo'
+
+// Older rows have no value for the flag, which means auto-complete is on
+export function autoCompletesFromSubtasks(todo: Todo): boolean {
+  return todo.auto_complete_subtasks == null || Number(todo.auto_complete_subtasks) > 0
+}
+
+export function getSubtaskProgress(subtasks: Subtask[]) {
+  const total = subtasks.length
+  const done = subtasks.filter(subtask => Number(subtask.completed) > 0).length
+  return { done, total, percent: total === 0 ? 0 : Math.round((done / total) * 100) }
+}
+
+// Group subtasks by parent todo, each group ordered by position
+export function groupSubtasks(subtasks: Subtask[]): Map<string, Subtask[]> {
+  const groups = new Map<string, Subtask[]>()
+  for (const subtask of subtasks) {
+    const group = groups.get(subtask.todo_id) ?? []
+    group.push(subtask)
+    groups.set(subtask.todo_id, group)
+  }
+  for (const group of groups.values()) {
+    group.sort((a, b) => Number(a.position) - Number(b.position))
+  }
+  return groups
+}
@@ -0,0 +1,46 @@
+import type { Tag, Todo, TodoTag } from '@/types/todo'
+
+// Tags live in their own table and are linked to todos through todo_tags. Names are lowercase
+// with dashes for spaces, so they can be typed as #name in quick add and tag:name in search.
+
+export function normalizeTagName(name: string): string {
+  return name.trim().toLowerCase().replace(/^#+/, '').replace(/\s+/g, '-')
+}
+
+// Legacy comma-separated list, as stored on the todo row before the tags table existed
+export function parseTags(value?: string | null): string[] {
+  if (!value) return []
+  return Array.from(new Set(value.split(',').map(normalizeTagName).filter(Boolean)))
+}
+
+// Each todo's tags, sorted by name; links to missing tags and repeated links are ignored
+export function groupTags(tags: Tag[], links: TodoTag[]): Map<string, Tag[]> {
+  const byId = new Map(tags.map(tag => [tag.id, tag]))
+  const grouped = new Map<string, Tag[]>()
+  for (const link of links) {
+    const tag = byId.get(link.tag_id)
+    if (!tag) continue
+    const list = grouped.get(link.todo_id) ?? []
+    if (!list.includes(tag)) list.push(tag)
+    grouped.set(link.todo_id, list)
+  }
+  grouped.forEach(list => list.sort((a, b) => a.name.localeCompare(b.name)))
+  return grouped
+}
+
+// Rows for todos that still carry the legacy tags column. Ids are derived from the values,
+// so running this twice (or on two devices) produces the same rows rather than duplicates.
+export function legacyTagRows(todos: Pick<Todo, 'id' | 'tags' | 'created_at' | 'user_id'>[]) {
+  const tags = new Map<string, Tag>()
+  const links: TodoTag[] = []
+  for (const todo of todos) {
+    for (const name of parseTags(todo.tags)) {
+      const tagId = `tag-${todo.user_id}-${name}`
+      if (!tags.has(tagId)) {
+        tags.set(tagId, { id: tagId, name, created_at: todo.created_at, user_id: todo.user_id })
+      }
+      links.push({ id: `${todo.id}-${tagId}`, todo_id: todo.id, tag_id: tagId, created_at: todo.created_at, user_id: todo.user_id })
+    }
+  }
+  return { tags: Array.from(tags.values()), links }
+}
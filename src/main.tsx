@@ -1,12 +1,18 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { Toaster } from 'react-hot-toast'
+import { BrowserRouter } from 'react-router-dom'
+import { ThemeProvider } from 'next-themes'
 import App from './App'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <Toaster position="top-right" />
-    <App />
+    <ThemeProvider attribute="class" defaultTheme="light">
+      <Toaster position="top-right" />
+      <BrowserRouter>
+        <App />
+      </BrowserRouter>
+    </ThemeProvider>
   </React.StrictMode>,
 ) 
\ No newline at end of file
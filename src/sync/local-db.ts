@@ -0,0 +1,116 @@
+// Thin promise wrapper over IndexedDB for the offline copy of a user's data.
+// One database per user so switching accounts in the same browser never mixes rows.
+
+export type SyncTable = 'todos' | 'subtasks' | 'smart_lists' | 'tags' | 'todo_tags' | 'categories' | 'projects' | 'project_members' | 'comments' | 'activities'
+
+export const SYNC_TABLES: SyncTable[] = [
+  'todos', 'subtasks', 'smart_lists', 'tags', 'todo_tags', 'categories', 'projects', 'project_members', 'comments', 'activities'
+]
+
+export type Row = { id: string; updated_at?: string } & Record<string, unknown>
+
+// One row's part of a batched update
+export interface BatchItem {
+  id: string
+  changes: Record<string, unknown>
+  base: Record<string, unknown>
+}
+
+// A mutation made locally that has not reached the server yet
+export interface PendingOp {
+  seq?: number
+  table: SyncTable
+  type: 'create' | 'update' | 'update-many' | 'delete'
+  // update-many: an id for the batch itself; the rows are in items
+  id: string
+  // create: the full row; update: only the changed fields
+  changes?: Record<string, unknown>
+  // update: the values those fields had before the local edit, used to detect remote edits
+  base?: Record<string, unknown>
+  // update-many: one entry per row, replayed as a single request
+  items?: BatchItem[]
+  // When the mutation happened; also written as the row's updated_at
+  timestamp: string
+  attempts?: number
+}
+
+// Bump when SYNC_TABLES grows; the upgrade creates any missing stores
+const DB_VERSION = 7
+const OUTBOX = 'outbox'
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export interface LocalDb {
+  getAll: <T extends Row>(table: SyncTable) => Promise<T[]>
+  put: (table: SyncTable, rows: Row[]) => Promise<void>
+  remove: (table: SyncTable, ids: string[]) => Promise<void>
+  // Replace a table's contents in one transaction (used after a full pull)
+  replaceAll: (table: SyncTable, rows: Row[]) => Promise<void>
+  enqueue: (op: PendingOp) => Promise<void>
+  pending: () => Promise<PendingOp[]>
+  updateOp: (op: PendingOp) => Promise<void>
+  dequeue: (seq: number) => Promise<void>
+  close: () => void
+}
+
+export async function openLocalDb(userId: string): Promise<LocalDb> {
+  const open = indexedDB.open(`smart-todo-${userId}`, DB_VERSION)
+  open.onupgradeneeded = () => {
+    const db = open.result
+    for (const table of SYNC_TABLES) {
+      if (!db.objectStoreNames.contains(table)) db.createObjectStore(table, { keyPath: 'id' })
+    }
+    if (!db.objectStoreNames.contains(OUTBOX)) {
+      db.createObjectStore(OUTBOX, { keyPath: 'seq', autoIncrement: true })
+    }
+  }
+  const db = await request(open)
+
+  const write = async (stores: string[], fn: (tx: IDBTransaction) => void) => {
+    const tx = db.transaction(stores, 'readwrite')
+    fn(tx)
+    await transactionDone(tx)
+  }
+
+  return {
+    getAll: <T extends Row>(table: SyncTable) =>
+      request(db.transaction(table).objectStore(table).getAll()) as Promise<T[]>,
+    put: (table, rows) => write([table], tx => {
+      const store = tx.objectStore(table)
+      rows.forEach(row => store.put(row))
+    }),
+    remove: (table, ids) => write([table], tx => {
+      const store = tx.objectStore(table)
+      ids.forEach(id => store.delete(id))
+    }),
+    replaceAll: (table, rows) => write([table], tx => {
+      const store = tx.objectStore(table)
+      store.clear()
+      rows.forEach(row => store.put(row))
+    }),
+    enqueue: op => write([OUTBOX], tx => {
+      tx.objectStore(OUTBOX).add(op)
+    }),
+    pending: () => request(db.transaction(OUTBOX).objectStore(OUTBOX).getAll()) as Promise<PendingOp[]>,
+    updateOp: op => write([OUTBOX], tx => {
+      tx.objectStore(OUTBOX).put(op)
+    }),
+    dequeue: seq => write([OUTBOX], tx => {
+      tx.objectStore(OUTBOX).delete(seq)
+    }),
+    close: () => db.close()
+  }
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { AuthService, AuthUser } from '@/data/backend'
+import { createGuardedRepository } from '@/data/guarded-repository'
+import { createLocalRealtime, createLocalRepository } from '@/data/local-backend'
+import type { TodoRepository } from '@/data/repository'
+import { createLocalStore, type LocalStore } from '@/sync/local-store'
+import type { Todo } from '@/types/todo'
+
+// The store runs against the in-memory local repository; without IndexedDB it keeps its copy
+// and outbox in memory, which is all these tests need
+const network = { onLine: true }
+const owner: AuthUser = { id: 'u-owner', email: 'owner@x.com' }
+const bob: AuthUser = { id: 'u-bob', email: 'bob@x.com' }
+const now = () => new Date().toISOString()
+
+const signedInAs = (user: AuthUser): AuthService => ({
+  onAuthStateChanged: callback => {
+    callback(user)
+    return () => {}
+  },
+  login: () => {}
+})
+
+const todo = (id: string, user: AuthUser, fields: Partial<Todo> = {}): Todo => ({
+  id, title: id, description: '', category: 'work', priority: 'low', completed: false, created_at: now(), user_id: user.id, ...fields
+})
+
+const stores: LocalStore[] = []
+const open = async (user: AuthUser, repository: TodoRepository, realtime?: ReturnType<typeof createLocalRealtime>) => {
+  const store = await createLocalStore(user, createGuardedRepository(repository, signedInAs(user)), realtime)
+  stores.push(store)
+  return store
+}
+const find = (store: LocalStore, id: string) => store.getSnapshot().todos.find(t => t.id === id)
+
+// Owner shares pA with bob, who accepts
+const shareWithBob = async (repository: TodoRepository, role: 'editor' | 'viewer', realtime?: ReturnType<typeof createLocalRealtime>) => {
+  const ownerStore = await open(owner, repository, realtime)
+  await ownerStore.create('projects', { id: 'pA', name: 'A', kind: 'project', position: 0, created_at: now(), user_id: owner.id })
+  await ownerStore.create('project_members', { id: 'mb', project_id: 'pA', email: bob.email, role, project_name: 'A', created_at: now(), user_id: owner.id })
+  await ownerStore.create('todos', { ...todo('tA', owner, { project_id: 'pA' }) })
+  await ownerStore.sync()
+  const bobStore = await open(bob, repository, realtime)
+  await bobStore.sync()
+  await bobStore.update('project_members', 'mb', { member_id: bob.id, accepted_at: now() })
+  await bobStore.sync()
+  await ownerStore.sync()
+  return { ownerStore, bobStore }
+}
+
+beforeEach(() => {
+  network.onLine = true
+  vi.stubGlobal('navigator', network)
+  vi.stubGlobal('window', { addEventListener: () => {}, removeEventListener: () => {}, setInterval, clearInterval })
+  vi.stubGlobal('BroadcastChannel', undefined)
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  stores.splice(0).forEach(store => store.close())
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('createLocalStore', () => {
+  it('replays edits made offline once it is back online', async () => {
+    const repository = createLocalRepository()
+    const store = await open(owner, repository)
+    await store.create('todos', { ...todo('t1', owner) })
+    await store.sync()
+
+    network.onLine = false
+    await store.update('todos', 't1', { description: 'offline edit' })
+    expect(store.getStatus().pending).toBe(1)
+
+    network.onLine = true
+    await store.sync()
+    await store.sync()
+    expect(store.getStatus().pending).toBe(0)
+    expect((await repository.todos.get('t1'))?.description).toBe('offline edit')
+  })
+
+  it('pulls rows other clients wrote and drops rows deleted on the server', async () => {
+    const repository = createLocalRepository()
+    const store = await open(owner, repository)
+    await store.create('todos', { ...todo('t1', owner) })
+    await store.sync()
+
+    await repository.todos.create(todo('t2', owner))
+    await repository.todos.remove('t1')
+    await store.sync()
+    expect(store.getSnapshot().todos.map(t => t.id)).toEqual(['t2'])
+  })
+
+  it('shares a project with an accepted member', async () => {
+    const { bobStore } = await shareWithBob(createLocalRepository(), 'editor')
+    expect(bobStore.getSnapshot().projects.map(p => p.id)).toEqual(['pA'])
+    expect(find(bobStore, 'tA')).toBeDefined()
+  })
+
+  it('applies live changes but keeps fields with queued local edits', async () => {
+    const repository = createLocalRepository()
+    const realtime = createLocalRealtime()
+    const { ownerStore, bobStore } = await shareWithBob(repository, 'editor', realtime)
+
+    network.onLine = false
+    await bobStore.update('todos', 'tA', { description: 'bob offline' })
+    network.onLine = true
+    await ownerStore.update('todos', 'tA', { description: 'owner', priority: 'high' })
+
+    await vi.waitFor(() => expect(find(bobStore, 'tA')?.priority).toBe('high'))
+    expect(find(bobStore, 'tA')?.description).toBe('bob offline')
+  })
+
+  it('ignores a live event for a row the server still has', async () => {
+    const repository = createLocalRepository()
+    const realtime = createLocalRealtime()
+    const { ownerStore } = await shareWithBob(repository, 'editor', realtime)
+
+    await realtime.publish('project:pA', { table: 'todos', type: 'delete', id: 'tA', origin: 'someone else' })
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(find(ownerStore, 'tA')).toBeDefined()
+  })
+
+  it('puts back the server copy when the server refuses a change', async () => {
+    const repository = createLocalRepository()
+    const { ownerStore, bobStore } = await shareWithBob(repository, 'editor')
+    // Bob hasn't pulled the downgrade yet, so his store still lets him edit
+    await ownerStore.update('project_members', 'mb', { role: 'viewer' })
+    await ownerStore.sync()
+
+    network.onLine = false
+    await bobStore.update('todos', 'tA', { title: 'refused' })
+    network.onLine = true
+    await bobStore.sync()
+    expect(bobStore.getStatus().pending).toBe(0)
+    expect(find(bobStore, 'tA')?.title).toBe('tA')
+    expect((await repository.todos.get('tA'))?.title).toBe('tA')
+  })
+})
@@ -0,0 +1,667 @@
+import type { AuthUser, ChangeEvent, RealtimeService } from '@/data/backend'
+import { MigrationError } from '@/data/migrations'
+import { normalizeEmail, PermissionError, writeDenial } from '@/data/permissions'
+import type { EntityRepository, TodoRepository } from '@/data/repository'
+import { openLocalDb, SYNC_TABLES, type BatchItem, type LocalDb, type PendingOp, type Row, type SyncTable } from '@/sync/local-db'
+import type { Activity, Category, Comment, Project, ProjectMember, SmartList, Subtask, Tag, Todo, TodoTag } from '@/types/todo'
+
+// The local store is the UI's source of truth. Every mutation lands in IndexedDB immediately,
+// is queued in the outbox, and is replayed against the repository whenever we are online. Pulls
+// merge the server's rows back in without clobbering changes that are still queued. Mutations
+// the user has no right to make (see data/permissions) throw a PermissionError and change nothing.
+//
+// Between syncs, two channels keep the copy current: changes other clients have written to the
+// server arrive on the backend's live channel (one per user, one per shared project) and are
+// merged field by field, and other tabs of this browser post their local mutations on a
+// BroadcastChannel, since each tab keeps its own in-memory cache of the shared IndexedDB copy.
+
+export interface StoreSnapshot {
+  todos: Todo[]
+  subtasks: Subtask[]
+  smartLists: SmartList[]
+  tags: Tag[]
+  todoTags: TodoTag[]
+  categories: Category[]
+  projects: Project[]
+  members: ProjectMember[]
+  // Oldest first
+  comments: Comment[]
+  activities: Activity[]
+}
+
+export interface SyncStatus {
+  online: boolean
+  syncing: boolean
+  pending: number
+  // True until the first pull after opening has finished (or failed)
+  initialSync: boolean
+  lastSyncedAt?: string
+  error?: string
+  // Set when the server schema could not be upgraded; syncing stops until the app is reloaded
+  fatalError?: string
+}
+
+// Outcome of a batched update: rows that were gone by the time it ran are reported, not fatal
+export interface BatchResult {
+  updated: string[]
+  missing: string[]
+}
+
+export interface LocalStore {
+  getSnapshot: () => StoreSnapshot
+  getStatus: () => SyncStatus
+  subscribe: (listener: () => void) => () => void
+  create: (table: SyncTable, row: Row) => Promise<void>
+  update: (table: SyncTable, id: string, changes: Record<string, unknown>) => Promise<void>
+  // Update many rows at once; queued and synced as a single write
+  updateMany: (table: SyncTable, updates: { id: string; changes: Record<string, unknown> }[]) => Promise<BatchResult>
+  remove: (table: SyncTable, ids: string[]) => Promise<void>
+  sync: () => Promise<void>
+  close: () => void
+}
+
+// Give up on an op after this many failed replays while online; it is most likely invalid
+const MAX_ATTEMPTS = 5
+const SYNC_INTERVAL_MS = 60_000
+
+// The database hands booleans and numbers back as strings ("1", "0.8"); compare loosely
+function normalize(value: unknown): string {
+  if (value === true) return '1'
+  if (value === false) return '0'
+  if (value == null) return ''
+  return String(value)
+}
+
+function isValidRow(row: unknown): row is Row {
+  return !!row && typeof (row as Row).id === 'string' && (row as Row).id.trim() !== ''
+}
+
+// Rows an op writes to; a batch touches every row in it
+function opRowIds(op: PendingOp): string[] {
+  return op.items ? op.items.map(item => item.id) : [op.id]
+}
+
+// Per-field last writer wins: a field only loses if the server changed it too, later than us
+function resolveFields(current: Row, changes: Record<string, unknown>, base: Record<string, unknown> | undefined, timestamp: string) {
+  const remoteUpdatedAt = normalize(current.updated_at)
+  const winners: Record<string, unknown> = {}
+  const losers: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(changes)) {
+    const changedRemotely = normalize(current[key]) !== normalize(base?.[key])
+    if (changedRemotely && remoteUpdatedAt > timestamp) {
+      losers[key] = current[key]
+    } else {
+      winners[key] = value
+    }
+  }
+  const updatedAt = remoteUpdatedAt > timestamp ? remoteUpdatedAt : timestamp
+  return { winners, losers, updatedAt }
+}
+
+// Fallback when IndexedDB is unavailable (some private browsing modes): nothing survives a
+// reload, but the app keeps working and still syncs while the tab is open
+function createMemoryDb(): LocalDb {
+  const tables = new Map<SyncTable, Map<string, Row>>(SYNC_TABLES.map(table => [table, new Map()]))
+  const outbox = new Map<number, PendingOp>()
+  let seq = 0
+  return {
+    getAll: async <T extends Row>(table: SyncTable) => Array.from(tables.get(table)!.values()) as T[],
+    put: async (table, rows) => { rows.forEach(row => tables.get(table)!.set(row.id, row)) },
+    remove: async (table, ids) => { ids.forEach(id => tables.get(table)!.delete(id)) },
+    replaceAll: async (table, rows) => { tables.set(table, new Map(rows.map(row => [row.id, row]))) },
+    enqueue: async op => { seq += 1; outbox.set(seq, { ...op, seq }) },
+    pending: async () => Array.from(outbox.values()),
+    updateOp: async op => { outbox.set(op.seq!, op) },
+    dequeue: async s => { outbox.delete(s) },
+    close: () => {}
+  }
+}
+
+// What a replayed op wrote to the server, to be announced on the live channel
+type WrittenChange = Omit<ChangeEvent, 'origin'>
+
+// Posted to the other tabs after each local mutation; the rows are already in IndexedDB
+interface TabMessage {
+  table: SyncTable
+  rows: Row[]
+  removed: string[]
+}
+
+function unique(values: unknown[]): string[] {
+  return Array.from(new Set(values.filter(value => typeof value === 'string' && value !== '') as string[]))
+}
+
+export async function createLocalStore(user: AuthUser, repository: TodoRepository, realtime?: RealtimeService): Promise<LocalStore> {
+  const userId = user.id
+  // Tells our own changes apart when the live channel echoes them back
+  const clientId = crypto.randomUUID()
+  // Every table holds plain rows as far as syncing is concerned
+  const remoteTable = (table: SyncTable) => repository[table] as unknown as EntityRepository<Row>
+  const fetchRemote = (table: SyncTable, id: string) => remoteTable(table).get(id)
+
+  let db: LocalDb
+  try {
+    db = await openLocalDb(userId)
+  } catch (error) {
+    console.error('IndexedDB unavailable, keeping data in memory:', error)
+    db = createMemoryDb()
+  }
+
+  const cache = new Map<SyncTable, Map<string, Row>>()
+  for (const table of SYNC_TABLES) {
+    const rows = await db.getAll(table)
+    cache.set(table, new Map(rows.filter(isValidRow).map(row => [row.id, row])))
+  }
+
+  const listeners = new Set<() => void>()
+  let snapshot: StoreSnapshot
+  let status: SyncStatus = {
+    online: navigator.onLine,
+    syncing: false,
+    pending: (await db.pending()).length,
+    initialSync: true
+  }
+  let flushing: Promise<void> | null = null
+  let closed = false
+
+  const buildSnapshot = () => {
+    snapshot = {
+      todos: (Array.from(cache.get('todos')!.values()) as unknown as Todo[])
+        .sort((a, b) => (b.created_at ?? '').localeCompare(a.created_at ?? '')),
+      subtasks: Array.from(cache.get('subtasks')!.values()) as unknown as Subtask[],
+      smartLists: (Array.from(cache.get('smart_lists')!.values()) as unknown as SmartList[])
+        .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? '')),
+      tags: (Array.from(cache.get('tags')!.values()) as unknown as Tag[])
+        .sort((a, b) => (a.name ?? '').localeCompare(b.name ?? '')),
+      todoTags: Array.from(cache.get('todo_tags')!.values()) as unknown as TodoTag[],
+      categories: (Array.from(cache.get('categories')!.values()) as unknown as Category[])
+        .sort((a, b) => Number(a.position) - Number(b.position)),
+      projects: (Array.from(cache.get('projects')!.values()) as unknown as Project[])
+        .sort((a, b) => Number(a.position) - Number(b.position)),
+      members: (Array.from(cache.get('project_members')!.values()) as unknown as ProjectMember[])
+        .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? '')),
+      comments: (Array.from(cache.get('comments')!.values()) as unknown as Comment[])
+        .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? '')),
+      activities: (Array.from(cache.get('activities')!.values()) as unknown as Activity[])
+        .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''))
+    }
+  }
+  buildSnapshot()
+
+  const notify = () => listeners.forEach(listener => listener())
+  const setStatus = (next: Partial<SyncStatus>) => {
+    status = { ...status, ...next }
+    notify()
+  }
+  const dataChanged = () => {
+    buildSnapshot()
+    updateSubscriptions()
+    notify()
+  }
+  const refreshPending = async () => setStatus({ pending: (await db.pending()).length })
+
+  const authorize = (table: SyncTable, before: Row | undefined, after: Row | undefined) => {
+    const reason = writeDenial(table, before, after, {
+      userId,
+      email: user.email,
+      projects: snapshot.projects,
+      members: snapshot.members,
+      todos: snapshot.todos
+    })
+    if (reason) throw new PermissionError(reason)
+  }
+
+  // Keep the server's value for fields we lost a conflict on
+  const applyLosers = async (table: SyncTable, id: string, losers: Record<string, unknown>) => {
+    const local = cache.get(table)!.get(id)
+    if (!local || Object.keys(losers).length === 0) return
+    const merged = { ...local, ...losers }
+    cache.get(table)!.set(id, merged)
+    await db.put(table, [merged])
+    dataChanged()
+  }
+
+  // A delete beats any edit: rows gone from the server go locally too
+  const dropLocal = async (table: SyncTable, ids: string[]) => {
+    if (ids.length === 0) return
+    ids.forEach(id => cache.get(table)!.delete(id))
+    await db.remove(table, ids)
+    dataChanged()
+  }
+
+  // Rows whose local copy must give way to the server's on the next pull, however new it looks
+  const stale = new Set<string>()
+
+  // A dropped op never reaches the server: put its rows back the way the server has them, or
+  // failing that, let the next pull overwrite them
+  const restoreServerRows = async (op: PendingOp) => {
+    const local = cache.get(op.table)!
+    try {
+      for (const id of opRowIds(op)) {
+        const remote = await fetchRemote(op.table, id)
+        if (remote) {
+          local.set(id, remote)
+          await db.put(op.table, [remote])
+        } else {
+          local.delete(id)
+          await db.remove(op.table, [id])
+        }
+      }
+    } catch (error) {
+      console.error(`Error restoring ${op.table} rows, the next sync will:`, error)
+      opRowIds(op).forEach(id => stale.add(`${op.table}:${id}`))
+    }
+    dataChanged()
+  }
+
+  // Apply one queued op to the server, resolving conflicts per field; returns what was written
+  const replay = async (op: PendingOp): Promise<WrittenChange[]> => {
+    const remote = remoteTable(op.table)
+
+    if (op.type === 'create') {
+      const row = { ...op.changes, id: op.id, updated_at: op.timestamp }
+      try {
+        await remote.create(row)
+      } catch (error) {
+        // Already there (an earlier replay got through but its ack did not): overwrite it
+        if (!(await fetchRemote(op.table, op.id))) throw error
+        await remote.update(op.id, { ...op.changes, updated_at: op.timestamp })
+      }
+      return [{ table: op.table, type: 'create', id: op.id }]
+    }
+
+    if (op.type === 'delete') {
+      try {
+        await remote.remove(op.id)
+      } catch (error) {
+        if (await fetchRemote(op.table, op.id)) throw error
+      }
+      return [{ table: op.table, type: 'delete', id: op.id }]
+    }
+
+    if (op.type === 'update-many') {
+      // One read of just the batch's rows instead of a read per row, then one write for the whole batch
+      const currentRows = new Map((await remote.listWhere('id', opRowIds(op))).map(row => [row.id, row]))
+      const updates: Row[] = []
+      for (const item of op.items ?? []) {
+        const current = currentRows.get(item.id)
+        if (!current) continue
+        const { winners, losers, updatedAt } = resolveFields(current, item.changes, item.base, op.timestamp)
+        if (Object.keys(winners).length > 0) updates.push({ ...winners, id: item.id, updated_at: updatedAt })
+        await applyLosers(op.table, item.id, losers)
+      }
+      if (updates.length > 0) await remote.updateMany(updates)
+      await dropLocal(op.table, (op.items ?? []).map(item => item.id).filter(id => !currentRows.has(id)))
+      return updates.map(row => ({ table: op.table, type: 'update', id: String(row.id) }))
+    }
+
+    const current = await fetchRemote(op.table, op.id)
+    if (!current) {
+      await dropLocal(op.table, [op.id])
+      return []
+    }
+
+    const { winners, losers, updatedAt } = resolveFields(current, op.changes ?? {}, op.base, op.timestamp)
+    const written: WrittenChange[] = []
+    if (Object.keys(winners).length > 0) {
+      await remote.update(op.id, { ...winners, updated_at: updatedAt })
+      written.push({ table: op.table, type: 'update', id: op.id })
+    }
+    await applyLosers(op.table, op.id, losers)
+    return written
+  }
+
+  // The project a row belongs to, if any; rows deleted locally are remembered until announced
+  const removedFrom = new Map<string, string | undefined>()
+  const projectOf = (table: SyncTable, row: Row | undefined): string | undefined => {
+    if (!row) return undefined
+    if (table === 'projects') return row.id
+    if (table === 'todos' || table === 'project_members') return row.project_id as string | undefined
+    if (table === 'subtasks' || table === 'todo_tags' || table === 'comments' || table === 'activities') return projectOf('todos', cache.get('todos')!.get(String(row.todo_id)))
+    return undefined
+  }
+  // Projects with members and their own live channel
+  const sharedProjects = () => {
+    const projects = cache.get('projects')!
+    return new Set(Array.from(cache.get('project_members')!.values()).map(member => String(member.project_id)).filter(id => projects.has(id)))
+  }
+  const userChannel = `user:${userId}`
+
+  // Tell other clients about changes that just reached the server. Changes in a shared project
+  // go to that project's channel, where every member (and our other devices) listens.
+  const announce = (changes: WrittenChange[]) => {
+    if (!realtime) return
+    const shared = sharedProjects()
+    for (const change of changes) {
+      const key = `${change.table}:${change.id}`
+      const row = cache.get(change.table as SyncTable)?.get(change.id)
+      const projectId = row ? projectOf(change.table as SyncTable, row) : removedFrom.get(key)
+      removedFrom.delete(key)
+      const channel = projectId && shared.has(projectId) ? `project:${projectId}` : userChannel
+      realtime.publish(channel, { ...change, origin: clientId })
+        .catch(error => console.error(`Error announcing ${change.type} of ${key}:`, error))
+    }
+  }
+
+  // Another client says it changed a row on the server. The event is only a hint: the row is
+  // read back through the repository, so it is applied only if we may see it, and whatever the
+  // event claims, the server's copy is what lands. Fields with local edits still in the outbox
+  // keep their local value (the replay resolves those as usual), and a server copy older than
+  // ours is ignored, as a pull would.
+  const applyLiveChange = async (event: ChangeEvent) => {
+    const table = event.table as SyncTable
+    const rows = cache.get(table)
+    if (closed || event.origin === clientId || !rows) return
+
+    const pending = (await db.pending()).filter(op => op.table === table && opRowIds(op).includes(event.id))
+    const incoming = await fetchRemote(table, event.id)
+    if (closed) return
+    if (!incoming || !isValidRow(incoming)) {
+      // Gone, or no longer ours to see; a row we still have queued ops for waits for their replay
+      if (pending.length === 0 && rows.has(event.id)) await dropLocal(table, [event.id])
+      return
+    }
+
+    const current = rows.get(event.id)
+    if (!current) {
+      rows.set(incoming.id, incoming)
+      await db.put(table, [incoming])
+      dataChanged()
+      return
+    }
+    if (normalize(current.updated_at) > normalize(incoming.updated_at)) return
+
+    const queued = new Set(pending
+      .flatMap(op => Object.keys(op.items?.find(item => item.id === event.id)?.changes ?? op.changes ?? {})))
+    const accepted = Object.fromEntries(Object.entries(incoming).filter(([field]) => field !== 'id' && !queued.has(field)))
+    if (Object.keys(accepted).length === 0) return
+    const merged = { ...current, ...accepted }
+    rows.set(event.id, merged)
+    await db.put(table, [merged])
+    dataChanged()
+  }
+
+  // Live channels follow the set of shared projects as it changes
+  const subscriptions = new Map<string, () => void>()
+  const updateSubscriptions = () => {
+    if (!realtime || closed) return
+    const wanted = new Set([userChannel, ...Array.from(sharedProjects(), id => `project:${id}`)])
+    for (const [channel, unsubscribe] of subscriptions) {
+      if (wanted.has(channel)) continue
+      unsubscribe()
+      subscriptions.delete(channel)
+    }
+    for (const channel of wanted) {
+      if (subscriptions.has(channel)) continue
+      subscriptions.set(channel, realtime.subscribe(channel, event => {
+        applyLiveChange(event).catch(error => console.error('Error applying live change:', error))
+      }))
+    }
+  }
+
+  // Other tabs share IndexedDB and the outbox but not this cache
+  const tabs = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(`smart-todo:${userId}`)
+  const tellTabs = (message: TabMessage) => tabs?.postMessage(message)
+  const applyTabChange = async ({ table, rows, removed }: TabMessage) => {
+    const local = cache.get(table)
+    if (closed || !local) return
+    for (const row of rows) {
+      const current = local.get(row.id)
+      if (!current || normalize(row.updated_at) >= normalize(current.updated_at)) local.set(row.id, row)
+    }
+    removed.forEach(id => local.delete(id))
+    dataChanged()
+    await refreshPending()
+  }
+  if (tabs) tabs.onmessage = (event: MessageEvent<TabMessage>) => void applyTabChange(event.data)
+  updateSubscriptions()
+
+  // Replay the outbox in order; stops at the first failure so later ops never overtake it
+  const flush = (): Promise<void> => {
+    if (flushing) return flushing
+    // Nothing to replay offline; coming back online flushes again
+    if (!navigator.onLine || closed) return Promise.resolve()
+    let run: Promise<void> | null = null
+    run = (async () => {
+      setStatus({ syncing: true })
+      try {
+        while (navigator.onLine && !closed) {
+          const ops = (await db.pending()).sort((a, b) => a.seq! - b.seq!)
+          if (ops.length === 0) break
+
+          let failed = false
+          for (const op of ops) {
+            try {
+              const written = await replay(op)
+              await db.dequeue(op.seq!)
+              announce(written)
+            } catch (error) {
+              // Not the op's fault: keep it queued and let sync() report the broken schema
+              if (error instanceof MigrationError) throw error
+              failed = true
+              if (!navigator.onLine) break
+              // The server refusing it won't change on a retry
+              const attempts = error instanceof PermissionError ? MAX_ATTEMPTS : (op.attempts ?? 0) + 1
+              if (attempts >= MAX_ATTEMPTS) {
+                console.error(`Dropping ${op.type} of ${op.table}/${op.id} after ${attempts} attempts:`, error)
+                await db.dequeue(op.seq!)
+                await restoreServerRows(op)
+                setStatus({ error: 'Some changes could not be synced' })
+              } else {
+                console.error('Error syncing change, will retry:', error)
+                await db.updateOp({ ...op, attempts })
+              }
+              break
+            }
+          }
+          await refreshPending()
+          if (failed) break
+        }
+      } finally {
+        // Only this run's guard: a later flush may already own it
+        if (flushing === run) flushing = null
+        setStatus({ syncing: false })
+      }
+    })()
+    flushing = run
+    return run
+  }
+
+  // Everything the user can see: their own rows, plus each project shared with them and
+  // everything in it, whoever created it
+  const listVisible = async (): Promise<Map<SyncTable, Row[]>> => {
+    const own = await Promise.all(SYNC_TABLES.map(table => remoteTable(table).list(userId)))
+    const rows = new Map(SYNC_TABLES.map((table, index) => [table, new Map(own[index].map(row => [row.id, row]))]))
+    const add = (table: SyncTable, extra: Row[]) => extra.forEach(row => rows.get(table)!.set(row.id, row))
+    const values = (table: SyncTable) => Array.from(rows.get(table)!.values())
+
+    // Invitations are addressed by email; accepted ones also carry the member's id
+    const memberships = remoteTable('project_members')
+    add('project_members', await memberships.listWhere('email', [normalizeEmail(user.email)]))
+    add('project_members', await memberships.listWhere('member_id', [userId]))
+    const joined = unique(values('project_members')
+      .filter(member => member.member_id === userId && member.accepted_at && member.user_id !== userId)
+      .map(member => member.project_id))
+    add('projects', await remoteTable('projects').listWhere('id', joined))
+    add('project_members', await memberships.listWhere('project_id', joined))
+
+    // Projects with members, joined or our own, can hold todos other people created
+    const projectIds = new Set(values('projects').map(project => project.id))
+    const shared = unique(values('project_members').map(member => member.project_id)).filter(id => projectIds.has(id))
+    add('todos', await remoteTable('todos').listWhere('project_id', shared))
+    const sharedTodos = unique(values('todos').filter(todo => shared.includes(String(todo.project_id))).map(todo => todo.id))
+    add('subtasks', await remoteTable('subtasks').listWhere('todo_id', sharedTodos))
+    add('todo_tags', await remoteTable('todo_tags').listWhere('todo_id', sharedTodos))
+    add('comments', await remoteTable('comments').listWhere('todo_id', sharedTodos))
+    add('activities', await remoteTable('activities').listWhere('todo_id', sharedTodos))
+    add('tags', await remoteTable('tags').listWhere('id', unique(values('todo_tags').map(link => link.tag_id))
+      .filter(id => !rows.get('tags')!.has(id))))
+
+    return new Map(SYNC_TABLES.map(table => [table, values(table)]))
+  }
+
+  // Merge the server's rows into the local copy. Rows with queued ops keep their local state;
+  // everything else follows the server, including rows deleted there.
+  const pull = async () => {
+    if (!navigator.onLine) return
+    const remoteRows = await listVisible()
+    // Read the outbox after the list returns so edits made while it was in flight count too
+    const pending = await db.pending()
+    const touched = new Set(pending.flatMap(op => opRowIds(op).map(id => `${op.table}:${id}`)))
+
+    for (const table of SYNC_TABLES) {
+      const local = cache.get(table)!
+      const merged = new Map<string, Row>()
+      for (const row of remoteRows.get(table)!) {
+        if (touched.has(`${table}:${row.id}`)) continue
+        const localRow = local.get(row.id)
+        const localIsNewer = localRow && !stale.has(`${table}:${row.id}`) && normalize(localRow.updated_at) > normalize(row.updated_at)
+        merged.set(row.id, localIsNewer ? localRow : row)
+      }
+      for (const [id, row] of local) {
+        if (touched.has(`${table}:${id}`)) merged.set(id, row)
+      }
+      cache.set(table, merged)
+      await db.replaceAll(table, Array.from(merged.values()))
+    }
+    stale.clear()
+    dataChanged()
+  }
+
+  const sync = async () => {
+    if (closed || status.fatalError) return
+    try {
+      await flush()
+      await pull()
+      setStatus({ lastSyncedAt: new Date().toISOString(), error: undefined })
+    } catch (error) {
+      console.error('Error syncing:', error)
+      if (error instanceof MigrationError) {
+        setStatus({ fatalError: error.message })
+        return
+      }
+      setStatus({ error: navigator.onLine ? 'Sync failed, will retry' : undefined })
+    } finally {
+      setStatus({ initialSync: false })
+    }
+  }
+
+  // Background flushes only log; a broken schema is picked up by the next sync()
+  const flushQuietly = () => flush().catch(error => console.error('Error syncing:', error))
+
+  const enqueue = async (op: PendingOp) => {
+    await db.enqueue(op)
+    await refreshPending()
+    void flushQuietly()
+  }
+
+  const handleOnline = () => {
+    setStatus({ online: true })
+    void sync()
+  }
+  const handleOffline = () => setStatus({ online: false })
+  window.addEventListener('online', handleOnline)
+  window.addEventListener('offline', handleOffline)
+  const interval = window.setInterval(() => {
+    if (navigator.onLine) void sync()
+  }, SYNC_INTERVAL_MS)
+
+  return {
+    getSnapshot: () => snapshot,
+    getStatus: () => status,
+    subscribe: listener => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+
+    create: async (table, row) => {
+      authorize(table, undefined, row)
+      const timestamp = new Date().toISOString()
+      const stored = { ...row, updated_at: timestamp }
+      cache.get(table)!.set(row.id, stored)
+      dataChanged()
+      await db.put(table, [stored])
+      tellTabs({ table, rows: [stored], removed: [] })
+      await enqueue({ table, type: 'create', id: row.id, changes: stored, timestamp })
+    },
+
+    update: async (table, id, changes) => {
+      const existing = cache.get(table)!.get(id)
+      if (!existing) return
+      authorize(table, existing, { ...existing, ...changes })
+      const timestamp = new Date().toISOString()
+      const base = Object.fromEntries(Object.keys(changes).map(key => [key, existing[key]]))
+      const stored = { ...existing, ...changes, updated_at: timestamp }
+      cache.get(table)!.set(id, stored)
+      dataChanged()
+      await db.put(table, [stored])
+      tellTabs({ table, rows: [stored], removed: [] })
+      await enqueue({ table, type: 'update', id, changes, base, timestamp })
+    },
+
+    updateMany: async (table, updates) => {
+      const timestamp = new Date().toISOString()
+      const rows = cache.get(table)!
+      const items: BatchItem[] = []
+      const stored: Row[] = []
+      const missing: string[] = []
+      // All or nothing: one forbidden row rejects the whole batch
+      for (const { id, changes } of updates) {
+        const existing = rows.get(id)
+        if (existing) authorize(table, existing, { ...existing, ...changes })
+      }
+      for (const { id, changes } of updates) {
+        const existing = rows.get(id)
+        if (!existing) {
+          missing.push(id)
+          continue
+        }
+        items.push({ id, changes, base: Object.fromEntries(Object.keys(changes).map(key => [key, existing[key]])) })
+        const next = { ...existing, ...changes, updated_at: timestamp }
+        rows.set(id, next)
+        stored.push(next)
+      }
+      if (items.length > 0) {
+        dataChanged()
+        await db.put(table, stored)
+        tellTabs({ table, rows: stored, removed: [] })
+        await enqueue({ table, type: 'update-many', id: crypto.randomUUID(), items, timestamp })
+      }
+      return { updated: items.map(item => item.id), missing }
+    },
+
+    remove: async (table, ids) => {
+      for (const id of ids) {
+        const existing = cache.get(table)!.get(id)
+        if (existing) authorize(table, existing, undefined)
+      }
+      const timestamp = new Date().toISOString()
+      for (const id of ids) {
+        if (realtime) removedFrom.set(`${table}:${id}`, projectOf(table, cache.get(table)!.get(id)))
+        cache.get(table)!.delete(id)
+      }
+      dataChanged()
+      await db.remove(table, ids)
+      tellTabs({ table, rows: [], removed: ids })
+      for (const id of ids) {
+        await db.enqueue({ table, type: 'delete', id, timestamp })
+      }
+      await refreshPending()
+      void flushQuietly()
+    },
+
+    sync,
+
+    close: () => {
+      closed = true
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      window.clearInterval(interval)
+      subscriptions.forEach(unsubscribe => unsubscribe())
+      subscriptions.clear()
+      tabs?.close()
+      listeners.clear()
+      db.close()
+    }
+  }
+}
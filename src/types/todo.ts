@@ -0,0 +1,161 @@
+// Slug of one of the user's categories (see Category and lib/categories)
+export type TodoCategory = string
+
+export type TodoPriority = 'low' | 'medium' | 'high'
+
+export interface Todo {
+  id: string
+  title: string
+  description: string
+  category: TodoCategory
+  priority: TodoPriority
+  completed: boolean
+  created_at: string
+  due_date?: string
+  // Set once the user picks a category or priority by hand; the AI leaves these todos alone
+  manual_override?: boolean
+  // Set when only the priority was typed (quick-add !high); the AI may still refile the category
+  manual_priority?: boolean
+  // Complete the todo once every subtask is checked off (on unless turned off)
+  auto_complete_subtasks?: boolean
+  // RRULE-style schedule, see lib/recurrence
+  recurrence?: string
+  // Legacy comma-separated tags, moved into the tags/todo_tags tables (see lib/tags); no longer read
+  tags?: string
+  // Output of the last AI classification, see lib/classify
+  ai_confidence?: number
+  ai_rationale?: string
+  ai_suggested_due_date?: string
+  // Set when the todo is moved to the trash; cleared again on restore
+  deleted_at?: string
+  // Manual sort key, see lib/position
+  position?: string
+  // Started but not finished; shown in the board's In progress column, see lib/board
+  in_progress?: boolean
+  // The project it belongs to; unset means the inbox
+  project_id?: string
+  // User id of the project member the todo is assigned to (see ProjectMember.member_id)
+  assignee_id?: string
+  // Whoever created it; in a shared project that can be any editor
+  user_id: string
+}
+
+export interface Subtask {
+  id: string
+  todo_id: string
+  title: string
+  completed: boolean
+  position: number
+  created_at: string
+  user_id: string
+}
+
+// A saved filter shown in navigation, see lib/filters
+export interface SmartList {
+  id: string
+  name: string
+  // Serialized TodoFilter
+  filter: string
+  created_at: string
+  user_id: string
+}
+
+// A user-defined label; a todo can have many and a tag can be on many todos (via TodoTag)
+export interface Tag {
+  id: string
+  // Lowercase, no spaces, see lib/tags
+  name: string
+  created_at: string
+  user_id: string
+}
+
+export interface TodoTag {
+  id: string
+  todo_id: string
+  tag_id: string
+  created_at: string
+  user_id: string
+}
+
+// A user-defined category. Todos point at it by slug, which stays put when the category is
+// renamed; the row id is derived from the owner and slug (see lib/categories)
+export interface Category {
+  id: string
+  slug: string
+  name: string
+  // What belongs here, in words; given to the AI classifier
+  description?: string
+  // Key into categoryIcons / categoryColors
+  icon: string
+  color: string
+  position: number
+  // Hidden from pickers, filters and the classifier; todos already in it keep showing it
+  archived?: boolean
+  created_at: string
+  user_id: string
+}
+
+// A project holds todos; an area groups projects (see lib/projects)
+export interface Project {
+  id: string
+  name: string
+  kind: 'project' | 'area'
+  // The area a project sits in; unset for areas and top-level projects
+  parent_id?: string
+  position: number
+  // Set when a project is archived; its todos then only show inside it
+  archived_at?: string
+  created_at: string
+  user_id: string
+}
+
+// Owners manage the project and its members, editors change its todos, viewers only look
+export type ProjectRole = 'owner' | 'editor' | 'viewer'
+
+// Someone a project is shared with, from the invitation on (see data/permissions). The owner
+// gets a row too once the project is first shared, so members can see and assign them.
+export interface ProjectMember {
+  id: string
+  project_id: string
+  // Lowercase; invitations are addressed by email since the invitee may not have an id yet
+  email: string
+  role: ProjectRole
+  // The member's user id, set when they accept the invitation
+  member_id?: string
+  accepted_at?: string
+  // Copied from the project so an invitee can see what they are invited to before they have access
+  project_name: string
+  created_at: string
+  // The project's owner, who sent the invitation
+  user_id: string
+}
+
+// A comment on a todo; a reply points at the comment it answers (see lib/activity)
+export interface Comment {
+  id: string
+  todo_id: string
+  parent_id?: string
+  body: string
+  author_email: string
+  created_at: string
+  user_id: string
+}
+
+export type ActivityKind = 'created' | 'recategorized' | 'priority_changed' | 'completed' | 'reopened' | 'due_date_moved'
+
+// One entry in a todo's history, written whenever the app changes the todo (see lib/activity)
+export interface Activity {
+  id: string
+  todo_id: string
+  kind: ActivityKind
+  // The field's value before and after, for the kinds that change one
+  from_value?: string
+  to_value?: string
+  // Set when the AI classifier made the change rather than a person
+  by_ai?: boolean
+  author_email: string
+  created_at: string
+  user_id: string
+}
+
+export type TodoChanges = Partial<Pick<Todo, 'title' | 'description' | 'category' | 'priority' | 'due_date' | 'manual_override' | 'manual_priority' | 'auto_complete_subtasks' | 'recurrence' | 'ai_suggested_due_date' | 'project_id' | 'assignee_id'>>
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_BACKEND?: 'blink' | 'local'
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}